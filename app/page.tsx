@@ -1,269 +1,988 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useState, type MouseEvent } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AccidentalPicker } from "@/components/accidental-picker"
+import { Fretboard, stringStyle } from "@/components/fretboard"
+import { IntervalPad } from "@/components/interval-pad"
+import { LetterPad, type LetterAnswer } from "@/components/letter-pad"
+import { NoteNamePad, type NamePadLayout } from "@/components/note-name-pad"
+import { Staff, type NoteMark } from "@/components/staff"
+import { TuningEditor } from "@/components/tuning-editor"
+import { useLocalStorage } from "@/hooks/use-local-storage"
+import { useMetronome } from "@/hooks/use-metronome"
 import { RotateCcw, Settings } from "lucide-react"
+import {
+  CAGED_SHAPES,
+  CLEFS,
+  CUSTOM_FRETS,
+  C_MAJOR,
+  DEFAULT_FRET_RANGE,
+  GUITAR,
+  INSTRUMENTS,
+  MAX_CAPO_FRET,
+  LEAP_MIXES,
+  MAJOR_KEYS,
+  MEASURE_COUNTS,
+  MINOR_KEYS,
+  PHRASE_LENGTHS,
+  PHRASE_RANGES,
+  READING_RANGES,
+  SCALE_ROOTS,
+  SEVENTH_CHORDS,
+  SCALE_TYPES,
+  SHORTEST_DURATIONS,
+  SPELLING_MODES,
+  TEMPOS,
+  TIME_SIGNATURES,
+  TREBLE_8VB_CLEF,
+  TRIADS,
+  activeFretRange,
+  describePracticeArea,
+  describeTuning,
+  enharmonicSpellings,
+  findInstrument,
+  findClef,
+  findKey,
+  findPositions,
+  findVoicing,
+  findScaleType,
+  findTimeSignature,
+  fitPracticeArea,
+  fitFretRange,
+  formatPitch,
+  formatSpelling,
+  formatOctaveDifference,
+  formatTiming,
+  generateFretboardNotes,
+  generatePhrase,
+  generateRhythm,
+  intervalBetween,
+  isVoicingOf,
+  isSameInterval,
+  isSameSpelling,
+  isUsualSpelling,
+  judgeTiming,
+  measureBeats,
+  neckPositions,
+  octaveDifference,
+  pitchAtPosition,
+  pitchClass,
+  readingPositions,
+  noteBeats,
+  openStringsInPool,
+  pickChord,
+  pickInterval,
+  positionFretRange,
+  positionName,
+  practiceFretRange,
+  rhythmBeats,
+  scaleNotes,
+  spellInKey,
+  spellInScale,
+  spellPitch,
+  spellingClass,
+  staffPosition,
+  writtenPitch,
+  type Accidental,
+  type ChordType,
+  type ChordVoicing,
+  type Clef,
+  type Duration,
+  type FretPosition,
+  type FretRange,
+  type Interval,
+  type Instrument,
+  type Key,
+  type Pitch,
+  type PitchSpelling,
+  type PracticeArea,
+  type Rhythm,
+  type Scale,
+  type SpellingMode,
+  type TimeSignature,
+  type Timing,
+  type Tuning,
+} from "@/lib/music"
 
-// Guitar string tuning (standard tuning) with colors
-const STRINGS = [
-  { name: "E", octave: 4, stringIndex: 0, color: "#F59E0B", label: "1 THIN" }, // High E (1st string) - yellow
-  { name: "B", octave: 3, stringIndex: 1, color: "#8B5CF6", label: "2" }, // B (2nd string) - purple
-  { name: "G", octave: 3, stringIndex: 2, color: "#06B6D4", label: "3" }, // G (3rd string) - light blue
-  { name: "D", octave: 3, stringIndex: 3, color: "#F97316", label: "4" }, // D (4th string) - orange
-  { name: "A", octave: 2, stringIndex: 4, color: "#3B82F6", label: "5" }, // A (5th string) - blue
-  { name: "E", octave: 2, stringIndex: 5, color: "#F59E0B", label: "6 THICK" }, // Low E (6th string) - yellow
-]
-
-// Chromatic scale
-const NOTES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
-
-// Treble clef note positions - shifted up one octave visually
-// All notes appear one octave higher on the staff but keep their original names
-const TREBLE_CLEF_POSITIONS: { [key: string]: number } = {
-  // Lower octaves (now appear in main staff area)
-  C2: -9, // Now appears where C3 was
-  "C#2": -9,
-  D2: -8, // Now appears where D3 was
-  "D#2": -8,
-  E2: -7, // Now appears where E3 was
-  F2: -6, // Now appears where F3 was
-  "F#2": -6,
-  G2: -5, // Now appears where G3 was
-  "G#2": -5,
-  A2: -4, // Now appears where A3 was
-  "A#2": -4,
-  B2: -3, // Now appears where B3 was
-
-  // Octave 3 (now appears in upper staff area)
-  C3: -2, // Now appears where C4 was (below staff ledger)
-  "C#3": -2,
-  D3: -1, // Now appears where D4 was (below staff space)
-  "D#3": -1,
-  E3: 0, // Now appears where E4 was (bottom line)
-  F3: 1, // Now appears where F4 was (first space)
-  "F#3": 1,
-  G3: 2, // Now appears where G4 was (second line)
-  "G#3": 2,
-  A3: 3, // Now appears where A4 was (second space)
-  "A#3": 3,
-  B3: 4, // Now appears where B4 was (middle line)
-
-  // Octave 4 (now appears in upper staff and ledger lines)
-  C4: 5, // Now appears where C5 was (third space)
-  "C#4": 5,
-  D4: 6, // Now appears where D5 was (fourth line)
-  "D#4": 6,
-  E4: 7, // Now appears where E5 was (fourth space)
-  F4: 8, // Now appears where F5 was (top line)
-  "F#4": 8,
-  G4: 9, // Now appears where G5 was (first ledger above)
-  "G#4": 9,
-  A4: 10, // Now appears where A5 was (space above first ledger)
-  "A#4": 10,
-  B4: 11, // Now appears where B5 was (second ledger above)
-
-  // Octave 5 (now appears in higher ledger lines)
-  C5: 12, // Now appears where C6 was
-  "C#5": 12,
-  D5: 13, // Now appears where D6 was
-  "D#5": 13,
-  E5: 14,
-  F5: 15,
-  "F#5": 15,
-  G5: 16,
-  "G#5": 16,
-  A5: 17,
-  "A#5": 17,
-  B5: 18,
-
-  // Octave 6 (now appears even higher)
-  C6: 19,
-  "C#6": 19,
-  D6: 20,
-  "D#6": 20,
-  E6: 21,
-  F6: 22,
-  "F#6": 22,
-  G6: 23,
-  "G#6": 23,
-  A6: 24,
-  "A#6": 24,
-  B6: 25,
+// Select values for the practice area: "frets", "position-5" or "caged-E"
+function practiceAreaValue(area: PracticeArea) {
+  switch (area.kind) {
+    case "frets":
+      return "frets"
+    case "position":
+      return `position-${area.position}`
+    case "caged":
+      return `caged-${area.shape}`
+  }
 }
 
-// Function to get note at specific fret
-function getNoteAtFret(stringIndex: number, fret: number) {
-  const openString = STRINGS[stringIndex]
-  const noteIndex = NOTES.indexOf(openString.name)
-  const newNoteIndex = (noteIndex + fret) % 12
-  const octaveAdjustment = Math.floor((noteIndex + fret) / 12)
-
-  return {
-    name: NOTES[newNoteIndex],
-    octave: openString.octave + octaveAdjustment,
-    stringIndex,
-    fret,
+// CAGED shapes keep the root already picked, starting from C
+function parsePracticeArea(value: string, current: PracticeArea): PracticeArea {
+  const [kind, detail] = value.split("-")
+  if (kind === "position") return { kind: "position", position: Number(detail) }
+  const shape = CAGED_SHAPES.find((option) => option === detail)
+  if (kind === "caged" && shape) {
+    return { kind: "caged", shape, root: current.kind === "caged" ? current.root : C_MAJOR.tonic }
   }
+  return CUSTOM_FRETS
 }
 
-// Generate all possible notes on fretboard (first 12 frets)
-function generateFretboardNotes(enabledStrings: boolean[], includeAccidentals: boolean) {
-  const notes = []
-  for (let stringIndex = 0; stringIndex < 6; stringIndex++) {
-    if (!enabledStrings[stringIndex]) continue
+// What each question asks for
+type DrillMode = "notes" | "intervals" | "chords" | "phrases" | "write" | "name" | "read" | "every"
 
-    for (let fret = 1; fret <= 5; fret++) {
-      const note = getNoteAtFret(stringIndex, fret)
+const DRILL_MODES: { value: DrillMode; label: string }[] = [
+  { value: "notes", label: "Single notes" },
+  { value: "every", label: "Find every position of a note" },
+  { value: "intervals", label: "Intervals" },
+  { value: "chords", label: "Chords" },
+  { value: "phrases", label: "Sight-reading phrases" },
+  { value: "write", label: "Write the note (fret to staff)" },
+  { value: "name", label: "Name the note at a fret" },
+  { value: "read", label: "Read the note (staff only)" },
+]
 
-      // Skip sharps/flats if not included
-      if (!includeAccidentals && (note.name.includes("#") || note.name.includes("b"))) {
-        continue
-      }
+// Melodic intervals are written one note after the other, harmonic ones stacked
+type IntervalStyle = "melodic" | "harmonic"
 
-      // Only include notes that appear on treble clef
-      const noteKey = `${note.name}${note.octave}`
-      if (TREBLE_CLEF_POSITIONS[noteKey] !== undefined) {
-        notes.push(note)
-      }
-    }
-  }
+// Interval questions are answered on the fretboard or by naming the interval
+type IntervalAnswer = "fretboard" | "name"
 
-  return notes
+// Chords asked in the chord drill
+type ChordSet = "triads" | "sevenths" | "all"
+
+const CHORD_SETS: Record<ChordSet, ChordType[]> = {
+  triads: TRIADS,
+  sevenths: SEVENTH_CHORDS,
+  all: [...TRIADS, ...SEVENTH_CHORDS],
 }
 
-// Treble clef component with notes shifted up one octave visually
-function TrebleClef({ note }: { note: { name: string; octave: number } }) {
-  const noteKey = `${note.name}${note.octave}`
-  const staffPosition = TREBLE_CLEF_POSITIONS[noteKey]
+// Seconds allowed to find every position of a note
+const EVERY_POSITION_TIME_LIMITS = [10, 20, 30, 60]
 
-  if (staffPosition === undefined) {
-    console.warn(`Note ${noteKey} not found in treble clef positions`)
-    return <div>Note not supported</div>
-  }
+// Share of a written rhythm's notes that are rests instead
+const PHRASE_REST_CHANCE = 0.15
 
-  // Convert staff position to pixel position
-  // Bottom line (now E3) is at y=80, each position is 10 pixels apart
-  const yPosition = 120 - staffPosition * 10
+// Everything that shapes the questions: the drill and its options, the instrument and neck, and the notation
+interface PracticeSettings {
+  drillMode: DrillMode
+  intervalStyle: IntervalStyle
+  intervalAnswer: IntervalAnswer
+  chordSet: ChordSet
+  // Either voicing when null
+  chordVoicing: ChordVoicing | null
+  phraseLength: number
+  leapChance: number
+  // Semitones a phrase may span
+  phraseRange: number
+  rhythmEnabled: boolean
+  timeSignature: TimeSignature
+  measureCount: number
+  shortestDuration: Duration
+  // Metronome speed in beats per minute for playing in time; untimed when null
+  tempo: number | null
+  namePad: NamePadLayout
+  acceptEnharmonics: boolean
+  // Ledger lines reading questions may go to
+  readingRange: number
+  nameOctave: boolean
+  // Seconds to find every position of a note, or null for no limit
+  timeLimit: number | null
+  // Accept a fret in any octave of the written note
+  anyOctave: boolean
+  instrument: Instrument
+  tuning: Tuning
+  capo: number
+  fretRange: FretRange
+  practiceArea: PracticeArea
+  enabledStrings: boolean[]
+  includeAccidentals: boolean
+  includeOpenStrings: boolean
+  spellingMode: SpellingMode
+  selectedKey: Key
+  diatonicOnly: boolean
+  scale: Scale | null
+  clef: Clef
+}
 
-  // Generate ledger lines if needed
-  const ledgerLines = []
+const DEFAULT_SETTINGS: PracticeSettings = {
+  drillMode: "notes",
+  intervalStyle: "melodic",
+  intervalAnswer: "fretboard",
+  chordSet: "triads",
+  chordVoicing: "close",
+  phraseLength: 8,
+  leapChance: LEAP_MIXES[0].value,
+  phraseRange: 12,
+  rhythmEnabled: false,
+  // 4/4
+  timeSignature: TIME_SIGNATURES[2],
+  measureCount: 2,
+  shortestDuration: "eighth",
+  tempo: null,
+  namePad: "twelve",
+  acceptEnharmonics: true,
+  readingRange: 2,
+  nameOctave: false,
+  timeLimit: 20,
+  anyOctave: false,
+  instrument: GUITAR,
+  tuning: GUITAR.tunings[0],
+  capo: 0,
+  fretRange: DEFAULT_FRET_RANGE,
+  practiceArea: CUSTOM_FRETS,
+  enabledStrings: Array(GUITAR.stringCount).fill(true),
+  includeAccidentals: true,
+  includeOpenStrings: false,
+  spellingMode: "random",
+  selectedKey: C_MAJOR,
+  diatonicOnly: false,
+  scale: null,
+  clef: TREBLE_8VB_CLEF,
+}
 
-  // Below staff ledger lines (for positions < 0)
-  if (staffPosition < 0) {
-    for (let i = -2; i >= staffPosition; i -= 2) {
-      ledgerLines.push(120 - i * 10)
-    }
+// Apply a change to the settings: a new instrument brings its own strings, standard tuning and clef, and
+// the frets in play are kept between the capo and the end of the neck
+function changeSettings(prev: PracticeSettings, changes: Partial<PracticeSettings>): PracticeSettings {
+  const next = { ...prev, ...changes }
+  if (next.instrument !== prev.instrument) {
+    next.enabledStrings = Array(next.instrument.stringCount).fill(true)
+    next.clef = next.instrument.defaultClef
+    next.tuning = next.instrument.tunings[0]
   }
-
-  // Above staff ledger lines (for positions > 8)
-  if (staffPosition > 8) {
-    for (let i = 10; i <= staffPosition; i += 2) {
-      ledgerLines.push(120 - i * 10)
-    }
+  if (next.instrument !== prev.instrument || next.capo !== prev.capo) {
+    next.fretRange = fitFretRange(next.instrument, next.fretRange, next.capo)
+    next.practiceArea = fitPracticeArea(next.practiceArea, next.instrument, next.capo)
   }
-
-  return (
-    <div className="flex flex-col items-center">
-      <h3 className="text-lg font-semibold mb-4">Find this note on the fretboard:</h3>
-      <div className="relative">
-        <svg width="400" height="250" viewBox="0 0 400 250">
-          {/* Main staff lines (now E3=0, G3=2, B3=4, D4=6, F4=8) */}
-          {[0, 2, 4, 6, 8].map((line) => (
-            <line key={line} x1="20" y1={120 - line * 10} x2="380" y2={120 - line * 10} stroke="#000" strokeWidth="2" />
-          ))}
-
-          {/* Ledger lines */}
-          {ledgerLines.map((y, index) => (
-            <line key={`ledger-${index}`} x1="235" y1={y} x2="265" y2={y} stroke="#000" strokeWidth="2" />
-          ))}
-
-          {/* Note positioned accurately on the staff */}
-          <ellipse cx="250" cy={yPosition} rx="10" ry="7" fill="none" stroke="#000" strokeWidth="2" />
-
-          {/* Sharp or flat symbol if needed */}
-          {note.name.includes("#") && (
-            <text x="225" y={yPosition + 5} fontSize="20" fontFamily="serif" fill="#000">
-              ♯
-            </text>
-          )}
-          {note.name.includes("b") && (
-            <text x="225" y={yPosition + 5} fontSize="20" fontFamily="serif" fill="#000">
-              ♭
-            </text>
-          )}
-        </svg>
-
-        {/* Treble clef PNG positioned so staff lines go through it */}
-        <img src="/treble-clef.png" alt="Treble clef" className="absolute left-4 top-12 w-12 h-20 object-contain" />
-      </div>
-      <p className="mt-2 text-sm text-muted-foreground">
-        {note.name}
-        {note.octave}
-      </p>
-    </div>
-  )
+  return next
 }
 
-// String selection component
-function StringSelector({
-  enabledStrings,
-  onStringToggle,
-  includeAccidentals,
-  onAccidentalsToggle,
+// Practice settings component
+function SettingsPanel({
+  settings,
+  onChange,
+  effectiveFretRange,
+  customTunings,
+  onSaveTuning,
+  onDeleteTuning,
+  leftHanded,
+  onLeftHandedToggle,
+  playerView,
+  onPlayerViewToggle,
 }: {
-  enabledStrings: boolean[]
-  onStringToggle: (stringIndex: number) => void
-  includeAccidentals: boolean
-  onAccidentalsToggle: (value: boolean) => void
+  settings: PracticeSettings
+  onChange: (changes: Partial<PracticeSettings>) => void
+  // Frets the practice area works out to, counted from the capo
+  effectiveFretRange: FretRange
+  customTunings: Tuning[]
+  onSaveTuning: (value: Tuning) => void
+  onDeleteTuning: (value: Tuning) => void
+  leftHanded: boolean
+  onLeftHandedToggle: (value: boolean) => void
+  playerView: boolean
+  onPlayerViewToggle: (value: boolean) => void
 }) {
+  const {
+    drillMode,
+    intervalStyle,
+    intervalAnswer,
+    chordSet,
+    chordVoicing,
+    phraseLength,
+    leapChance,
+    phraseRange,
+    rhythmEnabled,
+    timeSignature,
+    measureCount,
+    shortestDuration,
+    tempo,
+    namePad,
+    acceptEnharmonics,
+    readingRange,
+    nameOctave,
+    timeLimit,
+    anyOctave,
+    instrument,
+    tuning,
+    capo,
+    fretRange,
+    practiceArea,
+    enabledStrings,
+    includeAccidentals,
+    includeOpenStrings,
+    spellingMode,
+    selectedKey,
+    diatonicOnly,
+    scale,
+    clef,
+  } = settings
+  const setAllStrings = (enabled: boolean) => onChange({ enabledStrings: tuning.strings.map(() => enabled) })
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Settings className="w-5 h-5" />
-          String Selection
+          Practice Settings
         </CardTitle>
-        <p className="text-sm text-muted-foreground">Choose which strings to practice with</p>
+        <p className="text-sm text-muted-foreground">Choose the drill, the instrument and the notes to practice</p>
       </CardHeader>
       <CardContent>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Drill</label>
+          <Select value={drillMode} onValueChange={(value) => onChange({ drillMode: value as DrillMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DRILL_MODES.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {drillMode === "intervals" && (
+            <>
+              <Select
+                value={intervalStyle}
+                onValueChange={(value) => onChange({ intervalStyle: value as IntervalStyle })}
+              >
+                <SelectTrigger aria-label="Interval style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="melodic">Melodic (one after the other)</SelectItem>
+                  <SelectItem value="harmonic">Harmonic (together)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={intervalAnswer}
+                onValueChange={(value) => onChange({ intervalAnswer: value as IntervalAnswer })}
+              >
+                <SelectTrigger aria-label="Answer by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fretboard">Find both notes on the fretboard</SelectItem>
+                  <SelectItem value="name">Name the interval</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {drillMode === "chords" && (
+            <>
+              <Select value={chordSet} onValueChange={(value) => onChange({ chordSet: value as ChordSet })}>
+                <SelectTrigger aria-label="Chords">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="triads">Triads</SelectItem>
+                  <SelectItem value="sevenths">Seventh chords</SelectItem>
+                  <SelectItem value="all">Triads and seventh chords</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={chordVoicing ?? "any"}
+                onValueChange={(value) => onChange({ chordVoicing: value === "any" ? null : (value as ChordVoicing) })}
+              >
+                <SelectTrigger aria-label="Voicing">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="close">Close voicings</SelectItem>
+                  <SelectItem value="open">Open voicings (spread triads, drop 2)</SelectItem>
+                  <SelectItem value="any">Close and open voicings</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {drillMode === "phrases" && (
+            <>
+              <div className="flex items-center space-x-3 py-1">
+                <Checkbox
+                  id="phrase-rhythm"
+                  checked={rhythmEnabled}
+                  onCheckedChange={(checked) => onChange({ rhythmEnabled: checked === true })}
+                />
+                <label htmlFor="phrase-rhythm" className="text-sm font-medium cursor-pointer">
+                  Write rhythms (note values, rests and a time signature)
+                </label>
+              </div>
+              {rhythmEnabled ? (
+                <>
+                  <Select
+                    value={timeSignature.id}
+                    onValueChange={(value) => onChange({ timeSignature: findTimeSignature(value) ?? timeSignature })}
+                  >
+                    <SelectTrigger aria-label="Time signature">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_SIGNATURES.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.id} time
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={String(measureCount)}
+                    onValueChange={(value) => onChange({ measureCount: Number(value) })}
+                  >
+                    <SelectTrigger aria-label="Measures">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MEASURE_COUNTS.map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count} {count === 1 ? "measure" : "measures"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={shortestDuration}
+                    onValueChange={(value) => onChange({ shortestDuration: value as Duration })}
+                  >
+                    <SelectTrigger aria-label="Shortest note">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHORTEST_DURATIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          Down to {option.label.toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={tempo === null ? "untimed" : String(tempo)}
+                    onValueChange={(value) => onChange({ tempo: value === "untimed" ? null : Number(value) })}
+                  >
+                    <SelectTrigger aria-label="Tempo">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="untimed">Untimed</SelectItem>
+                      {TEMPOS.map((bpm) => (
+                        <SelectItem key={bpm} value={String(bpm)}>
+                          In time with a metronome at {bpm} bpm
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <Select
+                  value={String(phraseLength)}
+                  onValueChange={(value) => onChange({ phraseLength: Number(value) })}
+                >
+                  <SelectTrigger aria-label="Phrase length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PHRASE_LENGTHS.map((length) => (
+                      <SelectItem key={length} value={String(length)}>
+                        {length} notes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={String(leapChance)} onValueChange={(value) => onChange({ leapChance: Number(value) })}>
+                <SelectTrigger aria-label="Steps and leaps">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAP_MIXES.map((mix) => (
+                    <SelectItem key={mix.value} value={String(mix.value)}>
+                      {mix.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(phraseRange)} onValueChange={(value) => onChange({ phraseRange: Number(value) })}>
+                <SelectTrigger aria-label="Range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHRASE_RANGES.map((range) => (
+                    <SelectItem key={range.value} value={String(range.value)}>
+                      Range: {range.label.toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {drillMode === "name" && (
+            <>
+              <Select value={namePad} onValueChange={(value) => onChange({ namePad: value as NamePadLayout })}>
+                <SelectTrigger aria-label="Answer buttons">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="twelve">12 buttons, one per fret</SelectItem>
+                  <SelectItem value="seventeen">17 buttons, sharps and flats apart</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-3 py-1">
+                <Checkbox
+                  id="accept-enharmonics"
+                  checked={acceptEnharmonics}
+                  onCheckedChange={(checked) => onChange({ acceptEnharmonics: checked === true })}
+                />
+                <label htmlFor="accept-enharmonics" className="text-sm font-medium cursor-pointer">
+                  Accept either enharmonic spelling (C♯ or D♭)
+                </label>
+              </div>
+            </>
+          )}
+          {(drillMode === "notes" || (drillMode === "intervals" && intervalAnswer === "fretboard")) && (
+            <div className="flex items-center space-x-3 py-1">
+              <Checkbox
+                id="any-octave"
+                checked={anyOctave}
+                onCheckedChange={(checked) => onChange({ anyOctave: checked === true })}
+              />
+              <label htmlFor="any-octave" className="text-sm font-medium cursor-pointer">
+                Any octave counts (the same note name in any octave)
+              </label>
+            </div>
+          )}
+          {drillMode === "every" && (
+            <Select
+              value={timeLimit === null ? "none" : String(timeLimit)}
+              onValueChange={(value) => onChange({ timeLimit: value === "none" ? null : Number(value) })}
+            >
+              <SelectTrigger aria-label="Time limit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No time limit</SelectItem>
+                {EVERY_POSITION_TIME_LIMITS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds} seconds to find them all
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {drillMode === "read" && (
+            <>
+              <Select value={String(readingRange)} onValueChange={(value) => onChange({ readingRange: Number(value) })}>
+                <SelectTrigger aria-label="Reading range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {READING_RANGES.map((range) => (
+                    <SelectItem key={range.value} value={String(range.value)}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-3 py-1">
+                <Checkbox
+                  id="name-octave"
+                  checked={nameOctave}
+                  onCheckedChange={(checked) => onChange({ nameOctave: checked === true })}
+                />
+                <label htmlFor="name-octave" className="text-sm font-medium cursor-pointer">
+                  Name the written octave too
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Instrument</label>
+          <Select
+            value={instrument.id}
+            onValueChange={(value) => onChange({ instrument: findInstrument(value) ?? GUITAR })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INSTRUMENTS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Tuning</label>
+          <Select
+            value={tuning.id}
+            onValueChange={(value) =>
+              onChange({
+                tuning:
+                  [...instrument.tunings, ...customTunings].find((option) => option.id === value) ??
+                  instrument.tunings[0],
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Presets</SelectLabel>
+                {instrument.tunings.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} ({describeTuning(option)})
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {customTunings.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {customTunings.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name} ({describeTuning(option)})
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <TuningEditor
+            tuning={tuning}
+            clef={clef}
+            customTunings={customTunings}
+            onSave={onSaveTuning}
+            onDelete={onDeleteTuning}
+          />
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Capo</label>
+          <Select value={String(capo)} onValueChange={(value) => onChange({ capo: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0">No capo</SelectItem>
+              {Array.from({ length: Math.min(MAX_CAPO_FRET, instrument.fretCount) }, (_, i) => i + 1).map((fret) => (
+                <SelectItem key={fret} value={String(fret)}>
+                  Fret {fret}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Practice area</label>
+          <Select
+            value={practiceAreaValue(practiceArea)}
+            onValueChange={(value) => onChange({ practiceArea: parsePracticeArea(value, practiceArea) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="frets">Custom frets</SelectItem>
+              <SelectGroup>
+                <SelectLabel>Positions</SelectLabel>
+                {neckPositions(instrument, capo).map((position) => {
+                  const range = positionFretRange(position)
+                  return (
+                    <SelectItem key={position} value={`position-${position}`}>
+                      Position {positionName(position)} (frets {range.min}–{range.max})
+                    </SelectItem>
+                  )
+                })}
+              </SelectGroup>
+              <SelectGroup>
+                <SelectLabel>CAGED shapes</SelectLabel>
+                {CAGED_SHAPES.map((shape) => (
+                  <SelectItem key={shape} value={`caged-${shape}`}>
+                    {shape} shape
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          {practiceArea.kind === "caged" && (
+            <Select
+              value={formatSpelling(practiceArea.root)}
+              onValueChange={(value) =>
+                onChange({
+                  practiceArea: {
+                    ...practiceArea,
+                    root: MAJOR_KEYS.find((key) => formatSpelling(key.tonic) === value)?.tonic ?? C_MAJOR.tonic,
+                  },
+                })
+              }
+            >
+              <SelectTrigger aria-label="Shape root">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAJOR_KEYS.map((key) => (
+                  <SelectItem key={key.id} value={formatSpelling(key.tonic)}>
+                    Root {formatSpelling(key.tonic, { unicode: true })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="text-sm font-medium">Frets{capo > 0 && " (counted from the capo)"}</label>
+          {practiceArea.kind !== "frets" ? (
+            <p className="text-sm text-muted-foreground">
+              {effectiveFretRange.min === 0 ? "Open strings" : effectiveFretRange.min} to {effectiveFretRange.max}
+            </p>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Select
+                value={String(fretRange.min)}
+                onValueChange={(value) => onChange({ fretRange: { ...fretRange, min: Number(value) } })}
+              >
+                <SelectTrigger aria-label="Lowest fret">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: fretRange.max }, (_, i) => i + 1).map((fret) => (
+                    <SelectItem key={fret} value={String(fret)}>
+                      {fret}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">to</span>
+              <Select
+                value={String(fretRange.max)}
+                onValueChange={(value) => onChange({ fretRange: { ...fretRange, max: Number(value) } })}
+              >
+                <SelectTrigger aria-label="Highest fret">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(
+                    { length: instrument.fretCount - capo - fretRange.min + 1 },
+                    (_, i) => fretRange.min + i,
+                  ).map((fret) => (
+                    <SelectItem key={fret} value={String(fret)}>
+                      {fret}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
         <div className="space-y-3">
-          {STRINGS.map((string, index) => (
+          {tuning.strings.map((pitch, index) => (
             <div key={index} className="flex items-center space-x-3">
               <Checkbox
                 id={`string-${index}`}
                 checked={enabledStrings[index]}
-                onCheckedChange={() => onStringToggle(index)}
+                onCheckedChange={(checked) =>
+                  onChange({
+                    enabledStrings: enabledStrings.map((enabled, i) => (i === index ? checked === true : enabled)),
+                  })
+                }
+              />
+              <div
+                className="w-4 h-4 rounded-full border"
+                style={{ backgroundColor: stringStyle(index, tuning).color }}
               />
-              <div className="w-4 h-4 rounded-full border" style={{ backgroundColor: string.color }} />
               <label htmlFor={`string-${index}`} className="text-sm font-medium cursor-pointer flex-1">
-                {string.name} - {string.label}
+                {formatPitch(pitch, { octave: false })} - {stringStyle(index, tuning).label}
               </label>
             </div>
           ))}
         </div>
         <div className="mt-4 pt-4 border-t">
           <div className="flex items-center space-x-3 mb-3">
-            <Checkbox id="include-accidentals" checked={includeAccidentals} onCheckedChange={onAccidentalsToggle} />
+            {/* The key or scale decides which sharps and flats come up while only its notes are drilled */}
+            <Checkbox
+              id="include-accidentals"
+              checked={includeAccidentals}
+              onCheckedChange={(checked) => onChange({ includeAccidentals: checked === true })}
+              disabled={diatonicOnly || scale !== null}
+            />
             <label htmlFor="include-accidentals" className="text-sm font-medium cursor-pointer">
               Include sharps and flats (#/♭)
             </label>
           </div>
+          <div className="flex items-center space-x-3 mb-3">
+            <Checkbox
+              id="include-open-strings"
+              checked={includeOpenStrings}
+              onCheckedChange={(checked) => onChange({ includeOpenStrings: checked === true })}
+            />
+            <label htmlFor="include-open-strings" className="text-sm font-medium cursor-pointer">
+              Include open strings
+            </label>
+          </div>
+          <div className="flex items-center space-x-3 mb-3">
+            <Checkbox
+              id="left-handed"
+              checked={leftHanded}
+              onCheckedChange={(checked) => onLeftHandedToggle(checked === true)}
+            />
+            <label htmlFor="left-handed" className="text-sm font-medium cursor-pointer">
+              Left-handed (nut on the right)
+            </label>
+          </div>
+          <div className="flex items-center space-x-3 mb-3">
+            <Checkbox
+              id="player-view"
+              checked={playerView}
+              onCheckedChange={(checked) => onPlayerViewToggle(checked === true)}
+            />
+            <label htmlFor="player-view" className="text-sm font-medium cursor-pointer">
+              Player’s view (thickest string on top)
+            </label>
+          </div>
+          <div className="space-y-2 mb-3">
+            <label className="text-sm font-medium">Clef</label>
+            <Select value={clef.id} onValueChange={(value) => onChange({ clef: findClef(value) ?? TREBLE_8VB_CLEF })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLEFS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 mb-3">
+            <label className="text-sm font-medium">Key signature</label>
+            <Select
+              value={selectedKey.id}
+              onValueChange={(value) => onChange({ selectedKey: findKey(value) ?? C_MAJOR })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Major</SelectLabel>
+                  {MAJOR_KEYS.map((key) => (
+                    <SelectItem key={key.id} value={key.id}>
+                      {key.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Minor</SelectLabel>
+                  {MINOR_KEYS.map((key) => (
+                    <SelectItem key={key.id} value={key.id}>
+                      {key.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="diatonic-only"
+                checked={diatonicOnly}
+                onCheckedChange={(checked) => onChange({ diatonicOnly: checked === true })}
+              />
+              <label htmlFor="diatonic-only" className="text-sm font-medium cursor-pointer">
+                Only notes in the key
+              </label>
+            </div>
+          </div>
+          <div className="space-y-2 mb-3">
+            <label className="text-sm font-medium">Scale</label>
+            <Select
+              value={scale?.type.id ?? "none"}
+              onValueChange={(value) => {
+                const type = findScaleType(value)
+                onChange({ scale: type ? { type, root: scale?.root ?? C_MAJOR.tonic } : null })
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Any notes</SelectItem>
+                {SCALE_TYPES.map((type) => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {scale && (
+              <>
+                <Select
+                  value={formatSpelling(scale.root)}
+                  onValueChange={(value) =>
+                    onChange({
+                      scale: {
+                        ...scale,
+                        root: SCALE_ROOTS.find((root) => formatSpelling(root) === value) ?? C_MAJOR.tonic,
+                      },
+                    })
+                  }
+                >
+                  <SelectTrigger aria-label="Scale root">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCALE_ROOTS.map((root) => (
+                      <SelectItem key={formatSpelling(root)} value={formatSpelling(root)}>
+                        Root {formatSpelling(root, { unicode: true })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {/* Notes in play */}
+                <div className="flex flex-wrap gap-1">
+                  {scaleNotes(scale).map((note, index) => (
+                    <Badge key={index} variant="secondary">
+                      {formatPitch(note, { octave: false, unicode: true })}
+                    </Badge>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          <div className="space-y-2 mb-3">
+            <label className="text-sm font-medium">Spell accidentals as</label>
+            <Select value={spellingMode} onValueChange={(value) => onChange({ spellingMode: value as SpellingMode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPELLING_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={() => STRINGS.forEach((_, i) => onStringToggle(i))}>
+            <Button variant="outline" size="sm" onClick={() => setAllStrings(true)}>
               All
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                STRINGS.forEach((_, i) => {
-                  if (enabledStrings[i]) onStringToggle(i)
-                })
-              }}
-            >
+            <Button variant="outline" size="sm" onClick={() => setAllStrings(false)}>
               None
             </Button>
           </div>
@@ -273,209 +992,596 @@ function StringSelector({
   )
 }
 
-// Fretboard component with realistic design
-function Fretboard({
-  onFretClick,
-  lastClickResult,
-}: {
-  onFretClick: (stringIndex: number, fret: number) => void
-  lastClickResult: { stringIndex: number; fret: number; correct: boolean } | null
-}) {
-  const frets = Array.from({ length: 13 }, (_, i) => i)
-
-  return (
-    <div className="overflow-x-auto bg-gray-50 p-6 rounded-lg">
-      <div className="min-w-[900px]">
-        {/* Title */}
-        <h2 className="text-2xl font-bold text-center text-gray-700 mb-6 tracking-wider">GUITAR FRETBOARD</h2>
-
-        {/* Fret numbers */}
-        <div className="flex mb-4">
-          <div className="w-20"></div>
-          <div className="w-12"></div> {/* Nut space */}
-          {frets.slice(1).map((fret) => (
-            <div key={fret} className="flex-1 text-center">
-              <div className="bg-gray-300 text-gray-700 rounded-full w-8 h-8 flex items-center justify-center mx-auto text-sm font-semibold">
-                {fret}
-              </div>
-            </div>
-          ))}
-        </div>
-
-        {/* Fretboard */}
-        <div className="relative bg-amber-100 border-2 border-gray-400 rounded">
-          {/* Nut */}
-          <div className="absolute left-0 top-0 bottom-0 w-3 bg-gray-800 rounded-l"></div>
-
-          {/* Strings */}
-          {STRINGS.map((string, stringIndex) => (
-            <div key={stringIndex} className="flex items-center relative" style={{ height: "60px" }}>
-              {/* String label */}
-              <div className="w-16 text-right pr-3 font-bold text-lg" style={{ color: string.color }}>
-                {string.name}
-              </div>
-
-              {/* String line */}
-              <div
-                className="absolute left-20 right-4 h-1 rounded"
-                style={{
-                  backgroundColor: string.color,
-                  top: "50%",
-                  transform: "translateY(-50%)",
-                  opacity: 0.7,
-                }}
-              />
-
-              {/* Frets */}
-              <div className="flex flex-1 relative z-10">
-                {frets.map((fret) => {
-                  const isLastClick =
-                    lastClickResult && lastClickResult.stringIndex === stringIndex && lastClickResult.fret === fret
-
-                  return (
-                    <button
-                      key={fret}
-                      onClick={() => onFretClick(stringIndex, fret)}
-                      className={`
-                        flex-1 h-14 relative hover:bg-yellow-200 hover:bg-opacity-50 transition-colors
-                        ${fret === 0 ? "ml-3" : "border-l border-gray-400"}
-                      `}
-                    >
-                      {/* Fret position markers */}
-                      {stringIndex === 2 && [3, 5, 7, 9].includes(fret) && (
-                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
-                      )}
-                      {stringIndex === 2 && fret === 12 && (
-                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
-                      )}
-                      {stringIndex === 3 && fret === 12 && (
-                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
-                      )}
-
-                      {/* Last click feedback */}
-                      {isLastClick && (
-                        <div
-                          className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 animate-pulse ${
-                            lastClickResult.correct ? "bg-green-500 border-green-700" : "bg-red-500 border-red-700"
-                          }`}
-                        />
-                      )}
-                    </button>
-                  )
-                })}
-              </div>
-
-              {/* String thickness label */}
-              <div className="w-16 text-left pl-3 text-xs text-gray-500">{string.label}</div>
-            </div>
-          ))}
-
-          {/* Bottom labels */}
-          <div className="flex items-center justify-between py-2 px-4 text-xs text-gray-500 font-semibold">
-            <div className="flex items-center gap-1">
-              <span>▲</span>
-              <span>OPEN STRINGS</span>
-            </div>
-            <div className="flex items-center gap-1">
-              <span>STRINGS</span>
-              <span>▲</span>
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
-  )
-}
+// Custom tunings are saved per instrument
+type SavedTuning = Tuning & { instrumentId: string }
 
 export default function GuitarFretboardTrainer() {
-  const [currentNote, setCurrentNote] = useState<{ name: string; octave: number } | null>(null)
-  const [correctPositions, setCorrectPositions] = useState<{ stringIndex: number; fret: number }[]>([])
-  const [lastClickResult, setLastClickResult] = useState<{
-    stringIndex: number
-    fret: number
+  const [settings, setSettings] = useState<PracticeSettings>(DEFAULT_SETTINGS)
+  const {
+    drillMode,
+    intervalStyle,
+    intervalAnswer,
+    chordSet,
+    chordVoicing,
+    phraseLength,
+    leapChance,
+    phraseRange,
+    rhythmEnabled,
+    timeSignature,
+    measureCount,
+    shortestDuration,
+    tempo,
+    namePad,
+    acceptEnharmonics,
+    readingRange,
+    nameOctave,
+    timeLimit,
+    anyOctave,
+    instrument,
+    tuning,
+    capo,
+    fretRange,
+    practiceArea,
+    enabledStrings,
+    includeAccidentals,
+    includeOpenStrings,
+    spellingMode,
+    selectedKey,
+    diatonicOnly,
+    scale,
+    clef,
+  } = settings
+  // Notes of the current question, and the position each was found at so far; when finding every position
+  // of a note, one entry per position instead
+  const [question, setQuestion] = useState<Pitch[]>([])
+  const [found, setFound] = useState<(FretPosition | null)[]>([])
+  const [lastIntervalAnswer, setLastIntervalAnswer] = useState<{ choice: Interval; answer: Interval } | null>(null)
+  // Chord notes picked so far, one per string, and the symbol of the chord being asked
+  const [selection, setSelection] = useState<FretPosition[]>([])
+  const [chordName, setChordName] = useState("")
+  // Next note to play in a phrase, and the notes that had a wrong click
+  const [cursor, setCursor] = useState(0)
+  const [mistakes, setMistakes] = useState<boolean[]>([])
+  // Rhythm of the current phrase, and for a phrase played in time, when its first beat falls (on the
+  // performance.now() clock) and how long a beat lasts, in milliseconds
+  const [rhythm, setRhythm] = useState<Rhythm | null>(null)
+  const [timedPhrase, setTimedPhrase] = useState<{ start: number; beatLength: number } | null>(null)
+  // How the last note played in time lined up with its beat, and the notes played on time so far
+  const [lastTiming, setLastTiming] = useState<{ timing: Timing; offset: number } | null>(null)
+  const [onTime, setOnTime] = useState(0)
+  const [timedAttempts, setTimedAttempts] = useState(0)
+  // Fret whose note is to be written on the staff or named, the note written for it, and the accidental to
+  // write with
+  const [targetFret, setTargetFret] = useState<FretPosition | null>(null)
+  const [written, setWritten] = useState<Pitch | null>(null)
+  const [writeAccidental, setWriteAccidental] = useState<Accidental | null>(null)
+  const [lastReadAnswer, setLastReadAnswer] = useState<{ choice: LetterAnswer; answer: Pitch } | null>(null)
+  // How far the last note played in any octave was from the written octave
+  const [lastOctaveDifference, setLastOctaveDifference] = useState<number | null>(null)
+  // When the round of finding every position runs out (on the Date.now() clock), the seconds left, the
+  // wrong clicks so far and, once time is up, the positions that weren't found
+  const [roundEndsAt, setRoundEndsAt] = useState<number | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [roundMisses, setRoundMisses] = useState(0)
+  const [unfound, setUnfound] = useState<FretPosition[]>([])
+  const [lastNameAnswer, setLastNameAnswer] = useState<{
+    choice: PitchSpelling[]
+    answer: Pitch
     correct: boolean
   } | null>(null)
+  const [lastClickResult, setLastClickResult] = useState<(FretPosition & { correct: boolean }) | null>(null)
   const [score, setScore] = useState(0)
   const [attempts, setAttempts] = useState(0)
   const [gameStarted, setGameStarted] = useState(false)
-  const [enabledStrings, setEnabledStrings] = useState<boolean[]>([true, true, true, true, true, true])
   const [showSettings, setShowSettings] = useState(false)
-  const [includeAccidentals, setIncludeAccidentals] = useState<boolean>(true)
+  const [customTunings, setCustomTunings] = useLocalStorage<SavedTuning[]>("custom-tunings", [])
+  const [leftHanded, setLeftHanded] = useLocalStorage("left-handed", false)
+  const [playerView, setPlayerView] = useLocalStorage("player-view", false)
+  const instrumentCustomTunings = customTunings.filter((saved) => saved.instrumentId === instrument.id)
+  const metronome = useMetronome()
 
-  const handleStringToggle = (stringIndex: number) => {
-    setEnabledStrings((prev) => {
-      const newEnabled = [...prev]
-      newEnabled[stringIndex] = !newEnabled[stringIndex]
-      return newEnabled
-    })
+  // Positions and CAGED shapes stand in for the fret range while one is picked
+  const practiceRange = useMemo(
+    () => practiceFretRange(practiceArea, instrument, tuning, capo, fretRange),
+    [practiceArea, instrument, tuning, capo, fretRange],
+  )
+
+  const updateSettings = (changes: Partial<PracticeSettings>) => setSettings((prev) => changeSettings(prev, changes))
+
+  const harmonic = (drillMode === "intervals" && intervalStyle === "harmonic") || drillMode === "chords"
+  const namingIntervals = drillMode === "intervals" && intervalAnswer === "name"
+
+  // Every position an answer can be given at with the current neck settings
+  const answerPool = useMemo(
+    () =>
+      generateFretboardNotes(instrument, tuning, {
+        enabledStrings,
+        includeAccidentals: true,
+        capo,
+        fretRange: practiceRange,
+        includeOpenStrings,
+        diatonicKey: null,
+        scale: null,
+      }),
+    [instrument, tuning, enabledStrings, capo, practiceRange, includeOpenStrings],
+  )
+
+  // Find all positions where each note of the question appears
+  const questionPositions = useMemo(
+    () => question.map((note) => findPositions(answerPool, note)),
+    [question, answerPool],
+  )
+
+  const handleSaveTuning = (value: Tuning) => {
+    setCustomTunings((prev) => [...prev, { ...value, instrumentId: instrument.id }])
+    updateSettings({ tuning: value })
+  }
+
+  const handleDeleteTuning = (value: Tuning) => {
+    setCustomTunings((prev) => prev.filter((saved) => saved.id !== value.id))
+    if (tuning.id === value.id) updateSettings({ tuning: instrument.tunings[0] })
   }
 
-  const generateNewNote = () => {
-    const allNotes = generateFretboardNotes(enabledStrings, includeAccidentals)
+  const generateNewQuestion = () => {
+    const allNotes = generateFretboardNotes(instrument, tuning, {
+      enabledStrings,
+      includeAccidentals,
+      capo,
+      fretRange: practiceRange,
+      includeOpenStrings,
+      diatonicKey: diatonicOnly ? selectedKey : null,
+      scale,
+    })
 
-    if (allNotes.length === 0) {
+    // Reading needs no instrument, so it goes ahead whatever strings and frets are picked
+    if (allNotes.length === 0 && drillMode !== "read") {
       alert("Please select at least one string to practice with!")
       return
     }
 
-    // Get unique notes (remove duplicates) - but only from notes that actually exist on enabled strings
-    const availableNoteKeys = new Set(allNotes.map((note) => `${note.name}${note.octave}`))
-    const uniqueNotes = Array.from(availableNoteKeys).map((noteStr) => {
-      const name = noteStr.slice(0, -1)
-      const octave = Number.parseInt(noteStr.slice(-1))
-      return { name, octave }
-    })
+    // Get unique pitches (remove duplicates) - but only from notes that actually exist on enabled strings
+    const uniquePitches = Array.from(new Set(allNotes.map((note) => note.pitch.midi)))
 
-    const randomNote = uniqueNotes[Math.floor(Math.random() * uniqueNotes.length)]
-    setCurrentNote(randomNote)
+    // Spell a pitch as a sharp or flat, or as the scale or key has it when drilling their notes;
+    // every fret that sounds it is still accepted
+    const spell = (midi: number) =>
+      (scale && spellInScale(midi, scale)) ??
+      (diatonicOnly ? spellInKey(midi, selectedKey) : spellPitch(midi, spellingMode, selectedKey))
 
-    // Find all positions where this note appears (only on enabled strings)
-    const positions = allNotes
-      .filter((note) => note.name === randomNote.name && note.octave === randomNote.octave)
-      .map((note) => ({ stringIndex: note.stringIndex, fret: note.fret }))
+    let notes: Pitch[]
+    let nextRhythm: Rhythm | null = null
+    let nextTarget: FretPosition | null = null
+    if (drillMode === "phrases") {
+      if (rhythmEnabled) {
+        nextRhythm = {
+          events: generateRhythm(timeSignature, {
+            measures: measureCount,
+            shortest: shortestDuration,
+            restChance: PHRASE_REST_CHANCE,
+          }),
+          timeSignature,
+        }
+      }
+      notes = generatePhrase(uniquePitches.map(spell), {
+        length: nextRhythm ? nextRhythm.events.filter((event) => !event.rest).length : phraseLength,
+        leapChance,
+        range: phraseRange,
+      })
+      if (notes.length === 0) {
+        alert("Please select strings and frets with at least two notes to read!")
+        return
+      }
+    } else if (drillMode === "chords") {
+      const chord = pickChord(
+        uniquePitches,
+        spell,
+        CHORD_SETS[chordSet],
+        chordVoicing ? [chordVoicing] : ["close", "open"],
+        answerPool,
+        instrument,
+        capo,
+      )
+      if (!chord) {
+        alert("No chord of this kind can be played on the selected strings and frets!")
+        return
+      }
+      notes = chord.notes
+      setChordName(chord.symbol)
+    } else if (drillMode === "intervals") {
+      const interval = pickInterval(uniquePitches, spell, harmonic ? answerPool : null)
+      if (!interval) {
+        alert("No two notes in the selected strings and frets make an interval of an octave or less!")
+        return
+      }
+      notes = interval
+    } else if (drillMode === "read") {
+      // Any line or space in range, as the key signature has it
+      const { lowest, highest } = readingPositions(readingRange)
+      const position = lowest + Math.floor(Math.random() * (highest - lowest + 1))
+      notes = [pitchAtPosition(position, clef, selectedKey, null)]
+    } else if (drillMode === "write" || drillMode === "name") {
+      const target = allNotes[Math.floor(Math.random() * allNotes.length)]
+      notes = [spell(target.pitch.midi)]
+      nextTarget = { stringIndex: target.stringIndex, fret: target.fret }
+    } else {
+      notes = [spell(uniquePitches[Math.floor(Math.random() * uniquePitches.length)])]
+    }
 
-    setCorrectPositions(positions)
+    setQuestion(notes)
+    setFound(drillMode === "every" ? findPositions(answerPool, notes[0]).map(() => null) : notes.map(() => null))
     setLastClickResult(null)
+    setLastIntervalAnswer(null)
+    setSelection([])
+    setCursor(0)
+    setMistakes(notes.map(() => false))
+    setRhythm(nextRhythm)
+    setLastTiming(null)
+    setTargetFret(nextTarget)
+    setWritten(null)
+    setLastNameAnswer(null)
+    setLastReadAnswer(null)
+    setRoundMisses(0)
+    setUnfound([])
+    setLastOctaveDifference(null)
+    setRoundEndsAt(drillMode === "every" && timeLimit !== null ? Date.now() + timeLimit * 1000 : null)
+    setSecondsLeft(drillMode === "every" ? timeLimit : null)
+
+    // A phrase played in time gets a measure of clicks to count in, then clicks through to its end
+    metronome.stop()
+    setTimedPhrase(null)
+    if (nextRhythm && tempo !== null) {
+      const beats = measureBeats(timeSignature)
+      const beatLength = 60000 / tempo
+      // Without sound the phrase is played untimed
+      metronome
+        .start((measureCount + 1) * beats, beatLength / 1000, beats)
+        .then((firstClick) => {
+          if (firstClick !== null) setTimedPhrase({ start: firstClick + beats * beatLength, beatLength })
+        })
+        .catch(() => setTimedPhrase(null))
+    }
+  }
+
+  // A new drill needs a question of its own shape
+  useEffect(() => {
+    if (gameStarted) generateNewQuestion()
+  }, [drillMode])
+
+  // Frets asked about on another instrument, tuning or capo may be gone or sound another note
+  useEffect(() => {
+    if (gameStarted) generateNewQuestion()
+  }, [instrument, tuning, capo])
+
+  // A phrase played in time ends a beat after it runs out; notes not played by then are missed
+  useEffect(() => {
+    if (!timedPhrase || !rhythm || cursor >= question.length) return
+    const end = timedPhrase.start + (rhythmBeats(rhythm) + 1) * timedPhrase.beatLength
+    const timer = setTimeout(() => {
+      setAttempts((prev) => prev + question.length - cursor)
+      setMistakes((prev) => prev.map((missed, index) => missed || index >= cursor))
+      setCursor(question.length)
+      setTimeout(() => {
+        generateNewQuestion()
+      }, 1000)
+    }, end - performance.now())
+    return () => clearTimeout(timer)
+  }, [timedPhrase, rhythm, cursor, question])
+
+  // Count down a round of finding every position; when time is up the positions not found are shown
+  useEffect(() => {
+    if (roundEndsAt === null) return
+    const tick = () => {
+      const remaining = roundEndsAt - Date.now()
+      setSecondsLeft(Math.max(0, Math.ceil(remaining / 1000)))
+      if (remaining > 0) return
+
+      setRoundEndsAt(null)
+      setUnfound(questionPositions[0]?.filter((_, index) => found[index] === null) ?? [])
+      setTimeout(() => {
+        generateNewQuestion()
+      }, 1500)
+    }
+    tick()
+    const timer = setInterval(tick, 250)
+    return () => clearInterval(timer)
+  }, [roundEndsAt, found, questionPositions])
+
+  // Chord notes are picked one per string, a second click on a string moving its note; the chord is
+  // checked once it has as many notes as the written one
+  const handleChordClick = (stringIndex: number, fret: number) => {
+    if (selection.length === question.length) return
+
+    const previous = selection.find((position) => position.stringIndex === stringIndex)
+    const nextSelection = selection.filter((position) => position.stringIndex !== stringIndex)
+    if (previous?.fret !== fret) nextSelection.push({ stringIndex, fret })
+    setSelection(nextSelection)
+    if (nextSelection.length < question.length) return
+
+    const isCorrect = isVoicingOf(nextSelection, question, answerPool, instrument, capo)
+    setLastClickResult({ stringIndex, fret, correct: isCorrect })
+
+    if (isCorrect) {
+      setScore((prev) => prev + 1)
+    } else {
+      // Show a voicing that would have worked
+      setFound(findVoicing(question, answerPool, instrument, capo) ?? [])
+    }
+
+    setAttempts((prev) => prev + 1)
+
+    setTimeout(
+      () => {
+        generateNewQuestion()
+      },
+      isCorrect ? 500 : 1500,
+    )
+  }
+
+  // Phrase notes are played in order: a wrong click marks the note and waits for the right one. In time
+  // there is no waiting: each click plays the next note, right or wrong, and is timed against its beat
+  const handlePhraseClick = (stringIndex: number, fret: number) => {
+    if (cursor >= question.length) return
+
+    const now = performance.now()
+    if (timedPhrase && rhythm) {
+      // Clicks during the count-in are ignored
+      if (now < timedPhrase.start - timedPhrase.beatLength / 2) return
+      const offset = now - timedPhrase.start - noteBeats(rhythm)[cursor] * timedPhrase.beatLength
+      const timing = judgeTiming(offset)
+      setLastTiming({ timing, offset })
+      if (timing === "on-time") setOnTime((prev) => prev + 1)
+      setTimedAttempts((prev) => prev + 1)
+    }
+
+    const isCorrect = questionPositions[cursor].some(
+      (position) => position.stringIndex === stringIndex && position.fret === fret,
+    )
+    setLastClickResult({ stringIndex, fret, correct: isCorrect })
+
+    if (!isCorrect) {
+      setMistakes((prev) => prev.map((missed, index) => missed || index === cursor))
+      if (!timedPhrase) return
+    }
+
+    // Each note counts once, and scores only if it was found first time
+    if (isCorrect && !mistakes[cursor]) setScore((prev) => prev + 1)
+    setAttempts((prev) => prev + 1)
+    setCursor(cursor + 1)
+
+    if (cursor + 1 === question.length) {
+      setTimeout(() => {
+        generateNewQuestion()
+      }, 1000)
+    }
+  }
+
+  // Every position of the note is to be found, in any order; a wrong click is counted as a miss and the
+  // round goes on until all are found or time is up
+  const handleEveryClick = (stringIndex: number, fret: number) => {
+    if (unfound.length > 0) return
+
+    const index = questionPositions[0].findIndex(
+      (position) => position.stringIndex === stringIndex && position.fret === fret,
+    )
+    if (index !== -1 && found[index] !== null) return
+    const isCorrect = index !== -1
+    setLastClickResult({ stringIndex, fret, correct: isCorrect })
+    setAttempts((prev) => prev + 1)
+
+    if (!isCorrect) {
+      setRoundMisses((prev) => prev + 1)
+      return
+    }
+
+    setScore((prev) => prev + 1)
+    const nextFound = [...found]
+    nextFound[index] = { stringIndex, fret }
+    setFound(nextFound)
+    if (nextFound.some((position) => position === null)) return
+
+    setRoundEndsAt(null)
+    setTimeout(() => {
+      generateNewQuestion()
+    }, 500)
   }
 
   const handleFretClick = (stringIndex: number, fret: number) => {
-    if (!currentNote) return
+    if (question.length === 0 || found.every((position) => position !== null)) return
+    if (drillMode === "every") {
+      handleEveryClick(stringIndex, fret)
+      return
+    }
+    if (drillMode === "chords") {
+      handleChordClick(stringIndex, fret)
+      return
+    }
+    if (drillMode === "phrases") {
+      handlePhraseClick(stringIndex, fret)
+      return
+    }
+    if (namingIntervals || drillMode === "write" || drillMode === "name") return
+
+    const isSamePosition = (position: FretPosition | null) =>
+      position?.stringIndex === stringIndex && position.fret === fret
+    if (found.some(isSamePosition)) return
 
-    const isCorrect = correctPositions.some((pos) => pos.stringIndex === stringIndex && pos.fret === fret)
+    // The clicked position answers a note still to be found; the notes of a harmonic interval sound
+    // together, so each needs a string of its own. With any octave allowed a fret of the same pitch class
+    // answers a note too, once no note is played there in its written octave
+    const isOpen = (index: number) =>
+      found[index] === null && !(harmonic && found.some((position) => position?.stringIndex === stringIndex))
+    const played = answerPool.find((note) => isSamePosition(note))?.pitch
+    let noteIndex = question.findIndex((_, index) => isOpen(index) && questionPositions[index].some(isSamePosition))
+    if (noteIndex === -1 && anyOctave && played) {
+      noteIndex = question.findIndex((note, index) => isOpen(index) && pitchClass(note) === pitchClass(played))
+    }
+    const isCorrect = noteIndex !== -1
+    const octaves = isCorrect && anyOctave && played ? octaveDifference(question[noteIndex], played) : null
+    setLastOctaveDifference(octaves)
 
     // Set the last click result for visual feedback
     setLastClickResult({ stringIndex, fret, correct: isCorrect })
 
+    const nextFound = [...found]
+    if (isCorrect) nextFound[noteIndex] = { stringIndex, fret }
+    setFound(nextFound)
+
+    // A wrong click ends the question; a right one waits for the rest of its notes
+    if (isCorrect && nextFound.some((position) => position === null)) return
+
+    if (isCorrect) {
+      setScore((prev) => prev + 1)
+    }
+
+    setAttempts((prev) => prev + 1)
+
+    // Generate new question immediately after it is answered, leaving time to read a note about the octave
+    setTimeout(
+      () => {
+        generateNewQuestion()
+      },
+      octaves !== null && octaves !== 0 ? 1000 : 500,
+    )
+  }
+
+  // The clicked line or space is written with the chosen accidental, or a sharp with Shift held and a flat
+  // with Alt; any spelling of the fret's pitch is right
+  const handleStaffClick = (position: number, event: MouseEvent<SVGRectElement>) => {
+    if (!targetFret || written) return
+
+    const accidental = event.shiftKey ? 1 : event.altKey ? -1 : writeAccidental
+    const pitch = pitchAtPosition(position, clef, selectedKey, accidental)
+    const isCorrect = pitch.midi === question[0].midi
+    setWritten(pitch)
+
     if (isCorrect) {
       setScore((prev) => prev + 1)
     }
 
     setAttempts((prev) => prev + 1)
 
-    // Generate new note immediately after any click
+    setTimeout(
+      () => {
+        generateNewQuestion()
+      },
+      isCorrect ? 500 : 1500,
+    )
+  }
+
+  // A button naming both spellings of a fret, or any spelling when enharmonics are accepted, only needs to
+  // sound like the note asked for; otherwise the spelling must be the one asked for, unless no button names
+  // it (E♯ or C♭ in some keys and scales)
+  const handleNameAnswer = (choice: PitchSpelling[]) => {
+    if (!targetFret || lastNameAnswer) return
+
+    const isCorrect = choice.some((spelling) =>
+      acceptEnharmonics || choice.length > 1 || !isUsualSpelling(question[0])
+        ? spellingClass(spelling) === pitchClass(question[0])
+        : isSameSpelling(spelling, question[0]),
+    )
+    setLastNameAnswer({ choice, answer: question[0], correct: isCorrect })
+    if (isCorrect) setScore((prev) => prev + 1)
+    setAttempts((prev) => prev + 1)
+
+    setTimeout(
+      () => {
+        generateNewQuestion()
+      },
+      isCorrect ? 500 : 1000,
+    )
+  }
+
+  // The letter (and octave, when asked) of the note as written
+  const handleReadAnswer = (choice: LetterAnswer) => {
+    if (question.length === 0 || lastReadAnswer) return
+
+    const answer = writtenPitch(question[0], clef)
+    const isCorrect = choice.letter === answer.letter && (choice.octave === null || choice.octave === answer.octave)
+    setLastReadAnswer({ choice, answer })
+    if (isCorrect) setScore((prev) => prev + 1)
+    setAttempts((prev) => prev + 1)
+
+    setTimeout(
+      () => {
+        generateNewQuestion()
+      },
+      isCorrect ? 500 : 1000,
+    )
+  }
+
+  const handleIntervalAnswer = (choice: Interval) => {
+    const answer = intervalBetween(question[0], question[1])
+    if (!answer || lastIntervalAnswer) return
+
+    setLastIntervalAnswer({ choice, answer })
+    if (isSameInterval(choice, answer)) setScore((prev) => prev + 1)
+    setAttempts((prev) => prev + 1)
+
+    // Leave the right answer up a little longer than a fretboard click
     setTimeout(() => {
-      generateNewNote()
-    }, 500) // Short delay to show the feedback
+      generateNewQuestion()
+    }, 1000)
   }
 
   const startGame = () => {
-    if (!enabledStrings.some((enabled) => enabled)) {
+    if (drillMode !== "read" && !enabledStrings.some((enabled) => enabled)) {
       alert("Please select at least one string to practice with!")
       return
     }
     setGameStarted(true)
     setScore(0)
     setAttempts(0)
-    generateNewNote()
+    setOnTime(0)
+    setTimedAttempts(0)
+    generateNewQuestion()
   }
 
   const resetGame = () => {
     setScore(0)
     setAttempts(0)
+    setOnTime(0)
+    setTimedAttempts(0)
     setLastClickResult(null)
-    generateNewNote()
+    generateNewQuestion()
   }
 
+  // Written octaves the reading questions fall in, lowest first
+  const readingOctaves = useMemo(() => {
+    const { lowest, highest } = readingPositions(readingRange)
+    const octaveAt = (position: number) => writtenPitch(pitchAtPosition(position, clef, C_MAJOR, null), clef).octave
+    const first = octaveAt(lowest)
+    return Array.from({ length: octaveAt(highest) - first + 1 }, (_, index) => first + index)
+  }, [readingRange, clef])
+
+  // Lines and spaces any fret in play can be written on, in any spelling, so every fret the write drill
+  // asks about can be answered on the staff
+  const writeRange = useMemo(() => {
+    const positions = answerPool.flatMap((note) =>
+      enharmonicSpellings(note.pitch).map((spelling) => staffPosition(spelling, clef)),
+    )
+    return positions.length > 0 ? { lowest: Math.min(...positions), highest: Math.max(...positions) } : undefined
+  }, [answerPool, clef])
+
+  // A written note is shown once it is in: on its own in green when right, or in red followed by the right
+  // note in green
+  const writeResult = written === null ? [] : written.midi === question[0].midi ? [written] : [written, question[0]]
+
+  // Shown beside the start screen, and under the controls while training
+  const settingsPanel = (
+    <SettingsPanel
+      settings={settings}
+      onChange={updateSettings}
+      effectiveFretRange={practiceRange}
+      customTunings={instrumentCustomTunings}
+      onSaveTuning={handleSaveTuning}
+      onDeleteTuning={handleDeleteTuning}
+      leftHanded={leftHanded}
+      onLeftHandedToggle={setLeftHanded}
+      playerView={playerView}
+      onPlayerViewToggle={setPlayerView}
+    />
+  )
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="max-w-7xl mx-auto">
@@ -495,7 +1601,7 @@ export default function GuitarFretboardTrainer() {
                 <CardContent className="pt-6">
                   <h2 className="text-xl mb-4">Ready to start learning?</h2>
                   <p className="text-muted-foreground mb-6">
-                    You'll see a note displayed in treble clef. Click any position on the fretboard to guess where that
+                    You'll see a note displayed on the staff. Click any position on the fretboard to guess where that
                     note appears! A new note will appear after each guess.
                   </p>
                   <Button onClick={startGame} size="lg">
@@ -504,12 +1610,7 @@ export default function GuitarFretboardTrainer() {
                 </CardContent>
               </Card>
             </div>
-            <StringSelector
-              enabledStrings={enabledStrings}
-              onStringToggle={handleStringToggle}
-              includeAccidentals={includeAccidentals}
-              onAccidentalsToggle={setIncludeAccidentals}
-            />
+            {settingsPanel}
           </div>
         ) : (
           <>
@@ -525,13 +1626,23 @@ export default function GuitarFretboardTrainer() {
                 <Badge variant="outline" className="text-lg px-4 py-2">
                   Accuracy: {attempts > 0 ? Math.round((score / attempts) * 100) : 0}%
                 </Badge>
+                {timedAttempts > 0 && (
+                  <Badge variant="outline" className="text-lg px-4 py-2">
+                    On time: {onTime}/{timedAttempts}
+                  </Badge>
+                )}
+                {practiceArea.kind !== "frets" && (
+                  <Badge variant="outline" className="text-lg px-4 py-2">
+                    {describePracticeArea(practiceArea)}
+                  </Badge>
+                )}
               </div>
               <div className="flex gap-2 flex-wrap">
                 <Button onClick={() => setShowSettings(!showSettings)} variant="outline">
                   <Settings className="w-4 h-4 mr-2" />
-                  Strings
+                  Settings
                 </Button>
-                <Button onClick={generateNewNote} variant="outline">
+                <Button onClick={generateNewQuestion} variant="outline">
                   Skip Note
                 </Button>
                 <Button onClick={resetGame} variant="outline">
@@ -541,27 +1652,114 @@ export default function GuitarFretboardTrainer() {
               </div>
             </div>
 
-            {showSettings && (
-              <div className="mb-6">
-                <StringSelector
-                  enabledStrings={enabledStrings}
-                  onStringToggle={handleStringToggle}
-                  includeAccidentals={includeAccidentals}
-                  onAccidentalsToggle={setIncludeAccidentals}
-                />
-              </div>
-            )}
+            {showSettings && <div className="mb-6">{settingsPanel}</div>}
 
             <div className="grid xl:grid-cols-4 gap-6">
-              {/* Note display */}
-              <Card className="xl:col-span-1">
-                <CardContent className="pt-6">{currentNote && <TrebleClef note={currentNote} />}</CardContent>
+              {/* Note display; phrases take the full width to be read, as does reading away from the fretboard */}
+              <Card className={drillMode === "phrases" || drillMode === "read" ? "xl:col-span-4" : "xl:col-span-1"}>
+                <CardContent className="pt-6">
+                  {question.length > 0 && drillMode === "name" && (
+                    <div className="flex flex-col items-center">
+                      <h3 className="text-lg font-semibold mb-4">Name the note at the highlighted fret:</h3>
+                      <NoteNamePad layout={namePad} onAnswer={handleNameAnswer} lastAnswer={lastNameAnswer} />
+                    </div>
+                  )}
+                  {question.length > 0 && drillMode !== "name" && (
+                    <Staff
+                      notes={drillMode === "write" ? writeResult : question}
+                      clef={clef}
+                      keySignature={selectedKey}
+                      harmonic={harmonic}
+                      prompt={
+                        {
+                          notes: "Find this note on the fretboard:",
+                          every: "Find every place this note is played:",
+                          intervals: namingIntervals ? "Name this interval:" : "Find both notes on the fretboard:",
+                          chords: "Play this chord, one note per string:",
+                          phrases: timedPhrase
+                            ? "Play these notes in time, after a measure of count-in:"
+                            : "Play these notes in order:",
+                          write: "Write the note played at the highlighted fret:",
+                          read: "Name this note:",
+                        }[drillMode]
+                      }
+                      showNames={!namingIntervals && drillMode !== "phrases" && drillMode !== "read"}
+                      caption={
+                        drillMode === "chords"
+                          ? chordName
+                          : writeResult.length === 2
+                            ? `${formatPitch(writeResult[0])} written, ${formatPitch(writeResult[1])} is played there`
+                            : undefined
+                      }
+                      cursor={drillMode === "phrases" ? cursor : undefined}
+                      rhythm={drillMode === "phrases" ? (rhythm ?? undefined) : undefined}
+                      marks={
+                        drillMode === "phrases"
+                          ? question.map((_, index): NoteMark | null =>
+                              mistakes[index] ? "missed" : index < cursor ? "played" : null,
+                            )
+                          : drillMode === "write"
+                            ? writeResult.map((_, index) => (index === writeResult.length - 1 ? "played" : "missed"))
+                            : undefined
+                      }
+                      onPositionClick={drillMode === "write" && !written ? handleStaffClick : undefined}
+                      inputRange={writeRange}
+                    />
+                  )}
+                  {lastTiming && (
+                    <p
+                      className={`mt-2 text-sm text-center ${lastTiming.timing === "on-time" ? "text-green-600" : "text-red-600"}`}
+                    >
+                      {formatTiming(lastTiming.timing, lastTiming.offset)}
+                    </p>
+                  )}
+                  {lastOctaveDifference !== null && (
+                    <p
+                      className={`mt-2 text-sm text-center ${lastOctaveDifference === 0 ? "text-green-600" : "text-amber-600"}`}
+                    >
+                      {formatOctaveDifference(lastOctaveDifference)}
+                    </p>
+                  )}
+                  {drillMode === "every" && question.length > 0 && (
+                    <p className="mt-2 text-sm text-center text-muted-foreground">
+                      Found {found.filter((position) => position !== null).length} of {found.length}
+                      {roundMisses > 0 && `, ${roundMisses} missed`}
+                      {secondsLeft !== null && ` · ${secondsLeft}s left`}
+                    </p>
+                  )}
+                  {drillMode === "read" && question.length > 0 && (
+                    <LetterPad
+                      octaves={nameOctave ? readingOctaves : null}
+                      onAnswer={handleReadAnswer}
+                      lastAnswer={lastReadAnswer}
+                    />
+                  )}
+                  {drillMode === "write" && <AccidentalPicker value={writeAccidental} onChange={setWriteAccidental} />}
+                  {namingIntervals && question.length === 2 && (
+                    <IntervalPad onAnswer={handleIntervalAnswer} lastAnswer={lastIntervalAnswer} />
+                  )}
+                </CardContent>
               </Card>
 
-              {/* Fretboard */}
-              <div className="xl:col-span-3">
-                <Fretboard onFretClick={handleFretClick} lastClickResult={lastClickResult} />
-              </div>
+              {/* Fretboard, left out of the staff-only reading drill */}
+              {drillMode !== "read" && (
+                <div className={drillMode === "phrases" ? "xl:col-span-4" : "xl:col-span-3"}>
+                  <Fretboard
+                    instrument={instrument}
+                    tuning={tuning}
+                    capo={capo}
+                    activeFrets={activeFretRange(instrument, practiceRange, capo)}
+                    openStringsActive={openStringsInPool(capo, includeOpenStrings)}
+                    leftHanded={leftHanded}
+                    playerView={playerView}
+                    onFretClick={handleFretClick}
+                    lastClickResult={lastClickResult}
+                    foundPositions={found.filter((position): position is FretPosition => position !== null)}
+                    selectedPositions={selection}
+                    highlightedPositions={targetFret ? [targetFret] : unfound}
+                  />
+                </div>
+              )}
             </div>
           </>
         )}
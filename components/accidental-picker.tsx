@@ -0,0 +1,39 @@
+import { Button } from "@/components/ui/button"
+import type { Accidental } from "@/lib/music"
+
+const CHOICES: { value: Accidental | null; label: string; title: string }[] = [
+  { value: null, label: "Key", title: "As the key signature" },
+  { value: -1, label: "♭", title: "Flat (or hold Alt)" },
+  { value: 0, label: "♮", title: "Natural" },
+  { value: 1, label: "♯", title: "Sharp (or hold Shift)" },
+]
+
+// Accidental for notes written on the staff; null leaves it to the key signature
+export function AccidentalPicker({
+  value,
+  onChange,
+}: {
+  value: Accidental | null
+  onChange: (value: Accidental | null) => void
+}) {
+  return (
+    <div className="mt-4">
+      <div className="grid grid-cols-4 gap-2">
+        {CHOICES.map((choice) => (
+          <Button
+            key={choice.label}
+            variant={value === choice.value ? "default" : "outline"}
+            size="sm"
+            title={choice.title}
+            onClick={() => onChange(choice.value)}
+          >
+            {choice.label}
+          </Button>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-center text-muted-foreground">
+        Hold Shift while clicking for a sharp, Alt for a flat
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import {
+  firstFret,
+  formatPitch,
+  stringStart,
+  type FretPosition,
+  type FretRange,
+  type Instrument,
+  type Tuning,
+} from "@/lib/music"
+
+// Inlay dots, with double dots at the octaves
+const INLAY_FRETS = [3, 5, 7, 9, 15, 17, 19, 21]
+const DOUBLE_INLAY_FRETS = [12, 24]
+
+// Frets shown when the drilled range ends lower down the neck
+const MIN_VISIBLE_FRETS = 12
+
+// String colors, 1st string first; on a guitar the 6th string shares the 1st string's color as both are E
+const STRING_COLORS = ["#F59E0B", "#8B5CF6", "#06B6D4", "#F97316", "#3B82F6", "#F59E0B", "#10B981", "#EC4899"]
+
+// The highest-pitched string is labelled thin and the lowest thick, which also holds for re-entrant tunings
+export function stringStyle(stringIndex: number, tuning: Tuning) {
+  const number = stringIndex + 1
+  const midis = tuning.strings.map((pitch) => pitch.midi)
+  const highest = midis.indexOf(Math.max(...midis))
+  const lowest = midis.lastIndexOf(Math.min(...midis))
+  return {
+    color: STRING_COLORS[stringIndex % STRING_COLORS.length],
+    label: stringIndex === highest ? `${number} THIN` : stringIndex === lowest ? `${number} THICK` : `${number}`,
+  }
+}
+
+// Fretboard component with realistic design
+export function Fretboard({
+  instrument,
+  tuning,
+  capo,
+  activeFrets,
+  openStringsActive,
+  leftHanded,
+  playerView,
+  onFretClick,
+  lastClickResult,
+  foundPositions,
+  selectedPositions,
+  highlightedPositions,
+}: {
+  instrument: Instrument
+  tuning: Tuning
+  capo: number
+  // Absolute frets the questions are drawn from; frets outside are shaded
+  activeFrets: FretRange
+  // Open strings are part of the questions and get their own highlight
+  openStringsActive: boolean
+  // Mirror the neck so the nut is on the right
+  leftHanded: boolean
+  // Flip the strings so the thickest is on top, as the player looks down at the neck
+  playerView: boolean
+  onFretClick: (stringIndex: number, fret: number) => void
+  lastClickResult: (FretPosition & { correct: boolean }) | null
+  // Correct answers already given for a question with several notes, or a voicing shown after a wrong one
+  foundPositions: FretPosition[]
+  // Notes picked for a chord that hasn't been checked yet
+  selectedPositions: FretPosition[]
+  // Positions the question points at, such as the fret whose note is to be written on the staff
+  highlightedPositions: FretPosition[]
+}) {
+  const lastFret = Math.min(instrument.fretCount, Math.max(MIN_VISIBLE_FRETS, activeFrets.max))
+  const frets = Array.from({ length: lastFret + 1 }, (_, i) => i)
+  const stringCount = tuning.strings.length
+
+  // Inlay dots sit on the middle string, with the 12th-fret double dot spanning the string below it
+  const inlayString = Math.floor(stringCount / 2) - 1
+
+  // Rows run from the 1st string down unless the strings are flipped; each row keeps its string index
+  const stringOrder = tuning.strings.map((_, stringIndex) => stringIndex)
+  if (playerView) stringOrder.reverse()
+  const rowDirection = leftHanded ? "flex-row-reverse" : ""
+
+  return (
+    <div className="overflow-x-auto bg-gray-50 p-6 rounded-lg">
+      <div style={{ minWidth: Math.max(900, frets.length * 48) }}>
+        {/* Title */}
+        <h2 className="text-2xl font-bold text-center text-gray-700 mb-6 tracking-wider">
+          {instrument.name.toUpperCase()} FRETBOARD
+        </h2>
+
+        {/* Fret numbers */}
+        <div className={`flex mb-4 ${rowDirection}`}>
+          <div className="w-20"></div>
+          <div className="w-12"></div> {/* Nut space */}
+          {frets.slice(1).map((fret) => (
+            <div key={fret} className="flex-1 text-center">
+              <div className="bg-gray-300 text-gray-700 rounded-full w-8 h-8 flex items-center justify-center mx-auto text-sm font-semibold">
+                {fret}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Fretboard */}
+        <div className="relative bg-amber-100 border-2 border-gray-400 rounded">
+          {/* Nut */}
+          <div
+            className={`absolute top-0 bottom-0 w-3 bg-gray-800 ${leftHanded ? "right-0 rounded-r" : "left-0 rounded-l"}`}
+          ></div>
+
+          {/* Strings */}
+          {stringOrder.map((stringIndex) => (
+            <div key={stringIndex} className={`flex items-center relative ${rowDirection}`} style={{ height: "60px" }}>
+              {/* String label */}
+              <div
+                className={`w-16 font-bold text-lg ${leftHanded ? "text-left pl-3" : "text-right pr-3"}`}
+                style={{ color: stringStyle(stringIndex, tuning).color }}
+              >
+                {formatPitch(tuning.strings[stringIndex], { octave: false })}
+              </div>
+
+              {/* String line */}
+              <div
+                className={`absolute h-1 rounded ${leftHanded ? "left-4 right-20" : "left-20 right-4"}`}
+                style={{
+                  backgroundColor: stringStyle(stringIndex, tuning).color,
+                  top: "50%",
+                  transform: "translateY(-50%)",
+                  opacity: 0.7,
+                }}
+              />
+
+              {/* Frets */}
+              <div className={`flex flex-1 relative z-10 ${rowDirection}`}>
+                {frets.map((fret) => {
+                  const isLastClick =
+                    lastClickResult && lastClickResult.stringIndex === stringIndex && lastClickResult.fret === fret
+                  const isFound = foundPositions.some(
+                    (position) => position.stringIndex === stringIndex && position.fret === fret,
+                  )
+                  const isSelected = selectedPositions.some(
+                    (position) => position.stringIndex === stringIndex && position.fret === fret,
+                  )
+                  const isHighlighted = highlightedPositions.some(
+                    (position) => position.stringIndex === stringIndex && position.fret === fret,
+                  )
+                  // Frets below where a short string starts, or behind the capo, can't be played
+                  const start = stringStart(instrument, stringIndex, capo)
+                  const unavailable = fret < start
+                  const activeOpenString = openStringsActive && fret === start
+                  // A short string's open note is only asked about as an open string, even within the range
+                  const closedOpenString = !openStringsActive && fret === start && start > 0
+                  const outOfRange =
+                    closedOpenString || (!activeOpenString && (fret < activeFrets.min || fret > activeFrets.max))
+                  const shortStringStart = firstFret(instrument, stringIndex)
+
+                  return (
+                    <button
+                      key={fret}
+                      onClick={() => onFretClick(stringIndex, fret)}
+                      disabled={unavailable}
+                      className={`
+                        flex-1 h-14 relative transition-colors
+                        ${unavailable ? "bg-gray-300 cursor-not-allowed" : "hover:bg-yellow-200 hover:bg-opacity-50"}
+                        ${!unavailable && outOfRange ? "bg-gray-400 bg-opacity-20" : ""}
+                        ${activeOpenString ? "bg-sky-200 bg-opacity-60 ring-2 ring-inset ring-sky-400" : ""}
+                        ${fret === 0 ? (leftHanded ? "mr-3" : "ml-3") : leftHanded ? "border-r border-gray-400" : "border-l border-gray-400"}
+                      `}
+                    >
+                      {/* Peg where a short string starts */}
+                      {shortStringStart > 0 && fret === shortStringStart && (
+                        <div
+                          className={`absolute top-3 bottom-3 w-2 bg-gray-800 rounded ${leftHanded ? "right-0" : "left-0"}`}
+                        />
+                      )}
+
+                      {/* Capo bar, clamped just behind its fret wire across every string it covers */}
+                      {capo > 0 && fret === capo && shortStringStart <= capo && (
+                        <div
+                          className={`absolute -top-0.5 -bottom-0.5 w-2.5 bg-gray-700 ${leftHanded ? "left-0" : "right-0"}`}
+                        />
+                      )}
+
+                      {/* Fret position markers */}
+                      {stringIndex === inlayString && INLAY_FRETS.includes(fret) && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
+                      )}
+                      {stringIndex === inlayString && DOUBLE_INLAY_FRETS.includes(fret) && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
+                      )}
+                      {stringIndex === inlayString + 1 && DOUBLE_INLAY_FRETS.includes(fret) && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-gray-400 rounded-full opacity-60" />
+                      )}
+
+                      {/* Notes of the question already found */}
+                      {isFound && !isLastClick && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 bg-green-500 border-green-700" />
+                      )}
+
+                      {/* Chord notes picked so far */}
+                      {isSelected && !isFound && !isLastClick && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 bg-blue-500 border-blue-700" />
+                      )}
+
+                      {/* Position the question asks about */}
+                      {isHighlighted && !isFound && !isSelected && !isLastClick && (
+                        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 bg-purple-500 border-purple-700" />
+                      )}
+
+                      {/* Last click feedback */}
+                      {isLastClick && (
+                        <div
+                          className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 animate-pulse ${
+                            lastClickResult.correct ? "bg-green-500 border-green-700" : "bg-red-500 border-red-700"
+                          }`}
+                        />
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+
+              {/* String thickness label */}
+              <div className={`w-16 text-xs text-gray-500 ${leftHanded ? "text-right pr-3" : "text-left pl-3"}`}>
+                {stringStyle(stringIndex, tuning).label}
+              </div>
+            </div>
+          ))}
+
+          {/* Bottom labels */}
+          <div
+            className={`flex items-center justify-between py-2 px-4 text-xs text-gray-500 font-semibold ${rowDirection}`}
+          >
+            <div className="flex items-center gap-1">
+              <span>▲</span>
+              <span>OPEN STRINGS</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <span>STRINGS</span>
+              <span>▲</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button"
+import { DRILL_INTERVALS, formatInterval, isSameInterval, type Interval } from "@/lib/music"
+
+// Answer buttons for naming an interval; after an answer the right interval is shown in green
+// and a wrong choice in red
+export function IntervalPad({
+  onAnswer,
+  lastAnswer,
+}: {
+  onAnswer: (interval: Interval) => void
+  lastAnswer: { choice: Interval; answer: Interval } | null
+}) {
+  return (
+    <div className="mt-4">
+      <div className="grid grid-cols-4 gap-2">
+        {DRILL_INTERVALS.map((interval) => {
+          const isAnswer = lastAnswer && isSameInterval(interval, lastAnswer.answer)
+          const isWrongChoice = lastAnswer && !isAnswer && isSameInterval(interval, lastAnswer.choice)
+          return (
+            <Button
+              key={formatInterval(interval, { short: true })}
+              variant="outline"
+              size="sm"
+              title={formatInterval(interval)}
+              disabled={lastAnswer !== null}
+              onClick={() => onAnswer(interval)}
+              className={`
+                ${isAnswer ? "bg-green-500 text-white disabled:opacity-100" : ""}
+                ${isWrongChoice ? "bg-red-500 text-white disabled:opacity-100" : ""}
+              `}
+            >
+              {formatInterval(interval, { short: true })}
+            </Button>
+          )
+        })}
+      </div>
+      {lastAnswer && (
+        <p className="mt-2 text-sm text-center text-muted-foreground">{formatInterval(lastAnswer.answer)}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { LETTERS, formatPitch, type Letter, type Pitch } from "@/lib/music"
+
+export interface LetterAnswer {
+  letter: Letter
+  // Null unless octaves are asked for
+  octave: number | null
+}
+
+// Answer buttons for naming a written note by its letter, and then its octave when asked; the keys A to G
+// and the octave digits work too. After an answer the right buttons are shown in green and wrong ones in red
+export function LetterPad({
+  octaves,
+  onAnswer,
+  lastAnswer,
+}: {
+  // Octaves to choose from, or null to answer with the letter alone
+  octaves: number[] | null
+  onAnswer: (answer: LetterAnswer) => void
+  lastAnswer: { choice: LetterAnswer; answer: Pitch } | null
+}) {
+  // Letter picked while waiting for its octave
+  const [pendingLetter, setPendingLetter] = useState<Letter | null>(null)
+
+  const chooseLetter = (letter: Letter) => {
+    if (octaves) setPendingLetter(letter)
+    else onAnswer({ letter, octave: null })
+  }
+
+  const chooseOctave = (octave: number) => {
+    if (!pendingLetter) return
+    setPendingLetter(null)
+    onAnswer({ letter: pendingLetter, octave })
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (lastAnswer || event.ctrlKey || event.metaKey || event.altKey) return
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return
+
+      const letter = LETTERS.find((option) => option === event.key.toUpperCase())
+      if (letter) chooseLetter(letter)
+      else if (/^\d$/.test(event.key) && octaves?.includes(Number(event.key))) chooseOctave(Number(event.key))
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  })
+
+  const buttonColor = (isRight: boolean, isWrongChoice: boolean) => `
+    ${isRight ? "bg-green-500 text-white disabled:opacity-100" : ""}
+    ${isWrongChoice ? "bg-red-500 text-white disabled:opacity-100" : ""}
+  `
+
+  return (
+    <div className="mt-4 w-full">
+      <div className="grid grid-cols-7 gap-2">
+        {LETTERS.map((letter) => {
+          const isRight = lastAnswer?.answer.letter === letter
+          const isWrongChoice = !isRight && lastAnswer?.choice.letter === letter
+          return (
+            <Button
+              key={letter}
+              variant={pendingLetter === letter ? "default" : "outline"}
+              className={`h-12 text-lg ${buttonColor(isRight, isWrongChoice)}`}
+              disabled={lastAnswer !== null}
+              onClick={() => chooseLetter(letter)}
+            >
+              {letter}
+            </Button>
+          )
+        })}
+      </div>
+      {octaves && (
+        <div className="mt-2 grid gap-2" style={{ gridTemplateColumns: `repeat(${octaves.length}, minmax(0, 1fr))` }}>
+          {octaves.map((octave) => {
+            const isRight = lastAnswer?.answer.octave === octave
+            const isWrongChoice = !isRight && lastAnswer?.choice.octave === octave
+            return (
+              <Button
+                key={octave}
+                variant="outline"
+                className={`h-12 text-lg ${buttonColor(isRight, isWrongChoice)}`}
+                disabled={lastAnswer !== null || pendingLetter === null}
+                onClick={() => chooseOctave(octave)}
+              >
+                {octave}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+      {lastAnswer && (
+        <p className="mt-2 text-sm text-center text-muted-foreground">
+          {formatPitch(lastAnswer.answer, { octave: octaves !== null, unicode: true })}
+        </p>
+      )}
+    </div>
+  )
+}
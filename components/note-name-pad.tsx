@@ -0,0 +1,111 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  formatPitch,
+  formatSpelling,
+  isSameSpelling,
+  isUsualSpelling,
+  parseSpelling,
+  pitchClassSpellings,
+  spellingClass,
+  type Pitch,
+  type PitchSpelling,
+} from "@/lib/music"
+
+// Twelve buttons name each fret with its sharp and flat together; seventeen give each spelling its own
+export type NamePadLayout = "twelve" | "seventeen"
+
+const PITCH_CLASSES = Array.from({ length: 12 }, (_, index) => index)
+
+// Answer buttons for naming a note, and a box to type the name instead. An answer is the spellings
+// it stands for; afterwards the right button is shown in green and a wrong choice in red. A note no button
+// spells, such as E♯, is shown on the button that sounds it
+export function NoteNamePad({
+  layout,
+  onAnswer,
+  lastAnswer,
+}: {
+  layout: NamePadLayout
+  onAnswer: (spellings: PitchSpelling[]) => void
+  lastAnswer: { choice: PitchSpelling[]; answer: Pitch; correct: boolean } | null
+}) {
+  const [typed, setTyped] = useState("")
+  const [invalid, setInvalid] = useState(false)
+
+  const buttons =
+    layout === "twelve"
+      ? PITCH_CLASSES.map(pitchClassSpellings)
+      : PITCH_CLASSES.flatMap((pitchClass) => pitchClassSpellings(pitchClass).map((spelling) => [spelling]))
+  const label = (spellings: PitchSpelling[]) =>
+    spellings.map((spelling) => formatSpelling(spelling, { unicode: true })).join("/")
+
+  const submitTyped = () => {
+    const spelling = parseSpelling(typed)
+    setInvalid(spelling === null)
+    if (!spelling) return
+    setTyped("")
+    onAnswer([spelling])
+  }
+
+  return (
+    <div className="mt-4">
+      <div className={`grid gap-2 ${layout === "twelve" ? "grid-cols-4" : "grid-cols-6"}`}>
+        {buttons.map((spellings) => {
+          const isChoice = lastAnswer && label(spellings) === label(lastAnswer.choice)
+          const isAnswer =
+            lastAnswer &&
+            spellings.some((spelling) =>
+              layout === "twelve" || !isUsualSpelling(lastAnswer.answer)
+                ? spellingClass(spelling) === spellingClass(lastAnswer.answer)
+                : isSameSpelling(spelling, lastAnswer.answer),
+            )
+          const isRight = isAnswer || (isChoice && lastAnswer.correct)
+          return (
+            <Button
+              key={label(spellings)}
+              variant="outline"
+              size="sm"
+              disabled={lastAnswer !== null}
+              onClick={() => onAnswer(spellings)}
+              className={`
+                ${isRight ? "bg-green-500 text-white disabled:opacity-100" : ""}
+                ${isChoice && !isRight ? "bg-red-500 text-white disabled:opacity-100" : ""}
+              `}
+            >
+              {label(spellings)}
+            </Button>
+          )
+        })}
+      </div>
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault()
+          submitTyped()
+        }}
+      >
+        <Input
+          value={typed}
+          onChange={(event) => {
+            setTyped(event.target.value)
+            setInvalid(false)
+          }}
+          placeholder="Or type it, e.g. F# or Bb"
+          aria-label="Note name"
+          aria-invalid={invalid}
+          disabled={lastAnswer !== null}
+        />
+        <Button type="submit" variant="outline" disabled={lastAnswer !== null || typed.trim() === ""}>
+          Answer
+        </Button>
+      </form>
+      {invalid && <p className="mt-2 text-sm text-center text-red-600">Type a letter from A to G with # or b</p>}
+      {lastAnswer && (
+        <p className="mt-2 text-sm text-center text-muted-foreground">
+          {formatPitch(lastAnswer.answer, { unicode: true })}
+        </p>
+      )}
+    </div>
+  )
+}
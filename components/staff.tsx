@@ -0,0 +1,625 @@
+import { useState, type MouseEvent } from "react"
+import {
+  C_MAJOR,
+  beamGroups,
+  eventMeasures,
+  formatPitch,
+  keySignaturePositions,
+  ledgerLinePositions,
+  measureAccidentals,
+  staffPosition,
+  valueQuarters,
+  writtenAccidental,
+  type Accidental,
+  type Clef,
+  type Duration,
+  type Key,
+  type Pitch,
+  type Rhythm,
+  type RhythmEvent,
+  type TimeSignature,
+} from "@/lib/music"
+
+// Staff geometry: the bottom line sits at STAFF_BOTTOM_Y and each staff position is STAFF_STEP pixels
+const STAFF_BOTTOM_Y = 120
+const STAFF_STEP = 10
+const STAFF_HEIGHT = 250
+const STAFF_WIDTH = 400
+
+// A lone note sits at SINGLE_NOTE_X; sequences start at FIRST_NOTE_X and advance by NOTE_SPACING
+const SINGLE_NOTE_X = 250
+const FIRST_NOTE_X = 120
+const NOTE_SPACING = 45
+
+// Key signatures start after the clef and push the notes right by KEY_SIGNATURE_SPACING per accidental
+const KEY_SIGNATURE_X = 80
+const KEY_SIGNATURE_SPACING = 11
+
+// In a chord, a note a second above its neighbour sits on the other side of the stem and
+// accidentals that would touch step left by a column
+const SECOND_OFFSET = 20
+const ACCIDENTAL_COLUMN_WIDTH = 14
+const ACCIDENTAL_CLEARANCE = 6
+
+// Written rhythms: the time signature follows the key signature, each event takes RHYTHM_SPACING plus
+// RHYTHM_QUARTER_SPACING per quarter note, a note with an accidental moves right to make room for it,
+// and bar lines keep BARLINE_GAP clear before the next measure
+const TIME_SIGNATURE_GAP = 12
+const RHYTHM_FIRST_NOTE_GAP = 35
+const RHYTHM_SPACING = 28
+const RHYTHM_QUARTER_SPACING = 22
+const RHYTHM_ACCIDENTAL_SPACING = 12
+const BARLINE_GAP = 14
+
+// Stems reach an octave from the notehead, or to the middle line when that is further; beams are
+// BEAM_THICKNESS thick and stacked BEAM_SPACING apart, and a lone sixteenth gets a BEAM_STUB stub
+const STEM_LENGTH = 35
+const STEM_X = 9
+const MIDDLE_LINE = 4
+const BEAM_THICKNESS = 5
+const BEAM_SPACING = 8
+const BEAM_STUB = 10
+
+// A staff taking input can be clicked from INPUT_LOWEST_POSITION to INPUT_HIGHEST_POSITION, three ledger
+// lines beyond the staff either way, or further when asked; the note about to be written is previewed at
+// SINGLE_NOTE_X
+const INPUT_LOWEST_POSITION = -6
+const INPUT_HIGHEST_POSITION = 14
+const INPUT_PREVIEW_COLOR = "#2563eb"
+
+// How a note of a sight-reading phrase went: played right first time, or played after a mistake
+export type NoteMark = "played" | "missed"
+
+const MARK_COLORS: Record<NoteMark, string> = { played: "#16a34a", missed: "#dc2626" }
+
+const ACCIDENTAL_SIGNS: Record<Accidental, string> = { [-2]: "𝄫", [-1]: "♭", 0: "♮", 1: "♯", 2: "𝄪" }
+
+function staffY(position: number) {
+  return STAFF_BOTTOM_Y - position * STAFF_STEP
+}
+
+// Treble clef image positioned so staff lines go through it
+function GClefSign() {
+  return <image href="/treble-clef.png" x="16" y="48" width="48" height="80" aria-label="Treble clef" />
+}
+
+// Bass clef drawn as a path: the head sits on the F line and the two dots straddle it
+function FClefSign() {
+  return (
+    <g aria-label="Bass clef" fill="#000">
+      <path d="M 26 58 C 26 38, 62 34, 62 62 C 62 90, 44 106, 22 118 C 40 104, 53 88, 53 62 C 53 44, 36 42, 33 52 Z" />
+      <circle cx="32" cy="58" r="6" />
+      <circle cx="70" cy={staffY(7)} r="3" />
+      <circle cx="70" cy={staffY(5)} r="3" />
+    </g>
+  )
+}
+
+function AccidentalSign({ accidental, x, position }: { accidental: Accidental; x: number; position: number }) {
+  return (
+    <text x={x} y={staffY(position) + 5} fontSize="20" fontFamily="serif" fill="#000">
+      {ACCIDENTAL_SIGNS[accidental]}
+    </text>
+  )
+}
+
+function TimeSignatureSign({ timeSignature, x }: { timeSignature: TimeSignature; x: number }) {
+  return (
+    <g fontSize="30" fontFamily="serif" fontWeight="bold" textAnchor="middle" fill="#000">
+      <text x={x} y={staffY(MIDDLE_LINE) - 1}>
+        {timeSignature.beats}
+      </text>
+      <text x={x} y={staffY(0) - 1}>
+        {timeSignature.beatUnit}
+      </text>
+    </g>
+  )
+}
+
+// Rest centred on x: whole rests hang from the fourth line, half rests sit on the middle line, and the
+// shorter rests are drawn as the usual hooks
+function RestSign({ duration, dotted, x }: { duration: Duration; dotted: boolean; x: number }) {
+  const hook = (y: number) => (
+    <g key={y}>
+      <circle cx={x - 3} cy={y} r="3.5" />
+      <path d={`M ${x - 3} ${y + 2} Q ${x + 1} ${y + 4} ${x + 6} ${y - 3}`} fill="none" stroke="#000" strokeWidth="2" />
+    </g>
+  )
+
+  return (
+    <g fill="#000" aria-label={`${duration} rest`}>
+      {duration === "whole" && <rect x={x - 8} y={staffY(6)} width="16" height="6" />}
+      {duration === "half" && <rect x={x - 8} y={staffY(MIDDLE_LINE) - 6} width="16" height="6" />}
+      {duration === "quarter" && (
+        <path
+          d={`M ${x - 3} ${staffY(7)} L ${x + 4} ${staffY(5.5)} L ${x - 2} ${staffY(4)} L ${x + 4} ${staffY(2.5)}
+              Q ${x - 6} ${staffY(2)} ${x} ${staffY(1)}`}
+          fill="none"
+          stroke="#000"
+          strokeWidth="3"
+          strokeLinejoin="round"
+        />
+      )}
+      {duration === "eighth" && (
+        <>
+          {hook(staffY(5))}
+          <line x1={x + 6} y1={staffY(5) - 3} x2={x} y2={staffY(1)} stroke="#000" strokeWidth="2" />
+        </>
+      )}
+      {duration === "sixteenth" && (
+        <>
+          {hook(staffY(5))}
+          {hook(staffY(3) - 1)}
+          <line x1={x + 6} y1={staffY(5) - 3} x2={x - 2} y2={staffY(-1)} stroke="#000" strokeWidth="2" />
+        </>
+      )}
+      {dotted && <circle cx={x + 14} cy={staffY(5)} r="2.5" />}
+    </g>
+  )
+}
+
+// Flags on an unbeamed eighth (one) or sixteenth (two), hanging from the stem's end towards the notehead
+function FlagSign({ x, y, up, count }: { x: number; y: number; up: boolean; count: number }) {
+  const direction = up ? 1 : -1
+  return (
+    <g fill="#000">
+      {Array.from({ length: count }, (_, index) => {
+        const start = y + index * BEAM_SPACING * direction
+        return (
+          <path
+            key={index}
+            d={`M ${x} ${start} C ${x + 2} ${start + 10 * direction}, ${x + 14} ${start + 14 * direction},
+                ${x + 10} ${start + 28 * direction} C ${x + 11} ${start + 18 * direction},
+                ${x + 5} ${start + 14 * direction}, ${x} ${start + 10 * direction} Z`}
+          />
+        )
+      })}
+    </g>
+  )
+}
+
+function beamCount(event: RhythmEvent) {
+  return event.duration === "sixteenth" ? 2 : event.duration === "eighth" ? 1 : 0
+}
+
+// Stems for every note shorter than a whole note, with flags on lone eighths and sixteenths and beams
+// across each beat's run of them. Stems point up below the middle line and down from it; a beamed run
+// takes the direction of its notes on average
+function Stems({
+  events,
+  positions,
+  xs,
+  groups,
+}: {
+  events: RhythmEvent[]
+  // Staff position of each event, null for rests
+  positions: (number | null)[]
+  xs: number[]
+  groups: number[][]
+}) {
+  const beamedIn = (index: number) => groups.some((group) => group.includes(index))
+
+  return (
+    <g>
+      {events.map((event, index) => {
+        const position = positions[index]
+        if (position === null || event.duration === "whole" || beamedIn(index)) return null
+        const up = position < MIDDLE_LINE
+        const y = staffY(position)
+        const end = up ? Math.min(y - STEM_LENGTH, staffY(MIDDLE_LINE)) : Math.max(y + STEM_LENGTH, staffY(MIDDLE_LINE))
+        const x = up ? xs[index] + STEM_X : xs[index] - STEM_X
+        return (
+          <g key={index}>
+            <line x1={x} y1={y} x2={x} y2={end} stroke="#000" strokeWidth="1.5" />
+            {beamCount(event) > 0 && <FlagSign x={x} y={end} up={up} count={beamCount(event)} />}
+          </g>
+        )
+      })}
+      {groups.map((group) => {
+        const groupPositions = group.map((index) => positions[index] as number)
+        const average = groupPositions.reduce((sum, position) => sum + position, 0) / group.length
+        const up = average < MIDDLE_LINE
+        const ys = groupPositions.map(staffY)
+        const beamY = up
+          ? Math.min(Math.min(...ys) - STEM_LENGTH, staffY(MIDDLE_LINE))
+          : Math.max(Math.max(...ys) + STEM_LENGTH, staffY(MIDDLE_LINE))
+        const stemXs = group.map((index) => (up ? xs[index] + STEM_X : xs[index] - STEM_X))
+        // Beams grow from the stem ends towards the noteheads
+        const beamTop = (level: number) =>
+          up ? beamY + level * BEAM_SPACING : beamY - level * BEAM_SPACING - BEAM_THICKNESS
+        const beam = (level: number, x1: number, x2: number) => (
+          <rect
+            key={`${level}-${x1}`}
+            x={Math.min(x1, x2)}
+            y={beamTop(level)}
+            width={Math.abs(x2 - x1)}
+            height={BEAM_THICKNESS}
+          />
+        )
+
+        return (
+          <g key={group[0]} fill="#000">
+            {group.map((index, order) => (
+              <line
+                key={index}
+                x1={stemXs[order]}
+                y1={ys[order]}
+                x2={stemXs[order]}
+                y2={beamY}
+                stroke="#000"
+                strokeWidth="1.5"
+              />
+            ))}
+            {beam(0, stemXs[0], stemXs[group.length - 1])}
+            {/* Second beam between neighbouring sixteenths, or a stub towards the neighbour */}
+            {group.map((index, order) => {
+              if (beamCount(events[index]) < 2) return null
+              const next = group[order + 1]
+              if (next !== undefined && beamCount(events[next]) === 2) return beam(1, stemXs[order], stemXs[order + 1])
+              const previous = group[order - 1]
+              if (previous !== undefined && beamCount(events[previous]) === 2) return null
+              const toward = order === 0 ? BEAM_STUB : -BEAM_STUB
+              return beam(1, stemXs[order], stemXs[order] + toward)
+            })}
+          </g>
+        )
+      })}
+    </g>
+  )
+}
+
+// Horizontal shifts for the notes of a chord, in the order the notes were given
+function chordOffsets(notes: Pitch[], clef: Clef, keySignature: Key) {
+  const positions = notes.map((note) => staffPosition(note, clef))
+  const offsets = notes.map(() => ({ note: 0, accidental: 0 }))
+
+  // Noteheads from the bottom up: a second above an unshifted note moves right
+  const ascending = notes.map((_, index) => index).sort((a, b) => positions[a] - positions[b])
+  ascending.forEach((index, order) => {
+    const below = ascending[order - 1]
+    if (below !== undefined && positions[index] - positions[below] === 1 && offsets[below].note === 0) {
+      offsets[index].note = SECOND_OFFSET
+    }
+  })
+
+  // Accidentals from the top down, each in the first column with room for it
+  const columns: number[] = []
+  ;[...ascending].reverse().forEach((index) => {
+    if (writtenAccidental(notes[index], keySignature) === null) return
+    const column = columns.findIndex((lowest) => lowest - positions[index] >= ACCIDENTAL_CLEARANCE)
+    const free = column === -1 ? columns.length : column
+    columns[free] = positions[index]
+    offsets[index].accidental = -free * ACCIDENTAL_COLUMN_WIDTH
+  })
+
+  return offsets
+}
+
+// Notehead with its ledger lines and written accidental, centred on x; in a chord the notehead and
+// accidental can be shifted off x. Hollow unless filled for a quarter note or shorter
+function StaffNote({
+  note,
+  clef,
+  accidental,
+  x,
+  noteOffset = 0,
+  accidentalOffset = 0,
+  color = "#000",
+  filled = false,
+  dotted = false,
+}: {
+  note: Pitch
+  clef: Clef
+  accidental: Accidental | null
+  x: number
+  noteOffset?: number
+  accidentalOffset?: number
+  color?: string
+  filled?: boolean
+  dotted?: boolean
+}) {
+  const position = staffPosition(note, clef)
+  const yPosition = staffY(position)
+  const noteX = x + noteOffset
+
+  return (
+    <g>
+      {/* Ledger lines */}
+      {ledgerLinePositions(position).map((line) => (
+        <line
+          key={line}
+          x1={Math.min(x, noteX) - 15}
+          y1={staffY(line)}
+          x2={Math.max(x, noteX) + 15}
+          y2={staffY(line)}
+          stroke="#000"
+          strokeWidth="2"
+        />
+      ))}
+
+      {/* Note positioned accurately on the staff */}
+      <ellipse cx={noteX} cy={yPosition} rx="10" ry="7" fill={filled ? color : "none"} stroke={color} strokeWidth="2" />
+
+      {/* Augmentation dot, in the space above when the note is on a line */}
+      {dotted && (
+        <circle cx={noteX + 16} cy={staffY(position % 2 === 0 ? position + 1 : position)} r="2.5" fill={color} />
+      )}
+
+      {/* Sharp, flat or natural if needed */}
+      {accidental !== null && (
+        <AccidentalSign accidental={accidental} x={x - 25 + accidentalOffset} position={position} />
+      )}
+    </g>
+  )
+}
+
+// Where the events of a written rhythm go: the x of each event, which event each note is, the accidentals
+// the notes need given those earlier in their measure, and the bar lines after each measure
+function rhythmLayout(rhythm: Rhythm, notes: Pitch[], keySignature: Key, startX: number) {
+  const measures = eventMeasures(rhythm.events, rhythm.timeSignature)
+  const noteEvents = rhythm.events.flatMap((event, index) => (event.rest ? [] : [index]))
+  const accidentals = measureAccidentals(
+    notes,
+    keySignature,
+    noteEvents.map((index) => measures[index]),
+  )
+
+  const eventXs: number[] = []
+  const barlines: number[] = []
+  let x = startX
+  rhythm.events.forEach((event, index) => {
+    if (index > 0 && measures[index] !== measures[index - 1]) {
+      barlines.push(x - BARLINE_GAP / 2)
+      x += BARLINE_GAP
+    }
+    const noteIndex = noteEvents.indexOf(index)
+    if (noteIndex !== -1 && accidentals[noteIndex] !== null) x += RHYTHM_ACCIDENTAL_SPACING
+    eventXs.push(x)
+    x += RHYTHM_SPACING + RHYTHM_QUARTER_SPACING * valueQuarters(event)
+  })
+
+  return { eventXs, noteEvents, accidentals, barlines, finalBarline: x - BARLINE_GAP / 2 }
+}
+
+function markColor(mark: NoteMark | null | undefined) {
+  return mark ? MARK_COLORS[mark] : undefined
+}
+
+interface StaffDrawingProps {
+  notes: Pitch[]
+  clef: Clef
+  keySignature?: Key
+  harmonic?: boolean
+  // Note to play next in a phrase, highlighted behind the notehead
+  cursor?: number
+  // Noteheads coloured by how they were played
+  marks?: (NoteMark | null)[]
+  // Durations, rests and a time signature for a phrase, with bar lines between the measures
+  rhythm?: Rhythm
+  // Makes every line and space, ledger lines included, clickable to write a note on it
+  onPositionClick?: (position: number, event: MouseEvent<SVGRectElement>) => void
+  // Lines and spaces that must be clickable beyond the usual three ledger lines
+  inputRange?: { lowest: number; highest: number }
+}
+
+// Staff with one or more notes read left to right, or stacked as a chord when harmonic; in the 8vb
+// clefs notes are written an octave above their sounding pitch
+export function StaffDrawing({
+  notes,
+  clef,
+  keySignature = C_MAJOR,
+  harmonic = false,
+  cursor,
+  marks = [],
+  rhythm,
+  onPositionClick,
+  inputRange,
+}: StaffDrawingProps) {
+  const [hovered, setHovered] = useState<number | null>(null)
+  const signature = keySignaturePositions(keySignature, clef)
+  const timeSignatureX = KEY_SIGNATURE_X + signature.length * KEY_SIGNATURE_SPACING + TIME_SIGNATURE_GAP
+  const layout = rhythm && rhythmLayout(rhythm, notes, keySignature, timeSignatureX + RHYTHM_FIRST_NOTE_GAP)
+  const firstNoteX = FIRST_NOTE_X + signature.length * KEY_SIGNATURE_SPACING
+  const xPositions = layout
+    ? layout.noteEvents.map((index) => layout.eventXs[index])
+    : notes.length === 1 || harmonic
+      ? notes.map(() => SINGLE_NOTE_X)
+      : notes.map((_, index) => firstNoteX + index * NOTE_SPACING)
+  const accidentals = layout ? layout.accidentals : notes.map((note) => writtenAccidental(note, keySignature))
+  const offsets = harmonic ? chordOffsets(notes, clef, keySignature) : []
+  const width = layout
+    ? Math.max(STAFF_WIDTH, layout.finalBarline + 20)
+    : Math.max(STAFF_WIDTH, ...xPositions.map((x) => x + 40))
+  const staffEnd = layout ? layout.finalBarline : width - 20
+  const inputLowest = Math.min(INPUT_LOWEST_POSITION, inputRange?.lowest ?? INPUT_LOWEST_POSITION)
+  const inputHighest = Math.max(INPUT_HIGHEST_POSITION, inputRange?.highest ?? INPUT_HIGHEST_POSITION)
+
+  // Grow the drawing upwards or downwards when ledger lines (or stems) run past the default frame
+  const noteYs = notes.map((note) => staffY(staffPosition(note, clef)))
+  if (onPositionClick) noteYs.push(staffY(inputHighest), staffY(inputLowest))
+  const margin = layout ? STEM_LENGTH + 15 : 30
+  const top = Math.min(0, ...noteYs.map((y) => y - margin))
+  const height = Math.max(STAFF_HEIGHT, ...noteYs.map((y) => y + margin)) - top
+
+  return (
+    <svg width={width} height={height} viewBox={`0 ${top} ${width} ${height}`} className="max-w-full">
+      {/* Cursor */}
+      {cursor !== undefined && cursor < notes.length && (
+        <rect
+          x={xPositions[cursor] - 18}
+          y={top}
+          width="36"
+          height={height}
+          rx="4"
+          fill="#dbeafe"
+          aria-label="Next note"
+        />
+      )}
+
+      {/* Main staff lines */}
+      {[0, 2, 4, 6, 8].map((line) => (
+        <line key={line} x1="20" y1={staffY(line)} x2={staffEnd} y2={staffY(line)} stroke="#000" strokeWidth="2" />
+      ))}
+
+      {clef.sign === "G" ? <GClefSign /> : <FClefSign />}
+
+      {/* Octave marking: an 8 below the clef means the music sounds an octave lower than written */}
+      {clef.octaveTransposition !== 0 && (
+        <text
+          x="40"
+          y={clef.octaveTransposition > 0 ? (clef.sign === "G" ? 144 : 136) : 30}
+          fontSize="14"
+          fontFamily="serif"
+          fontStyle="italic"
+          textAnchor="middle"
+          fill="#000"
+        >
+          8
+        </text>
+      )}
+
+      {/* Key signature */}
+      {signature.map(({ accidental, position }, index) => (
+        <AccidentalSign
+          key={index}
+          accidental={accidental}
+          x={KEY_SIGNATURE_X + index * KEY_SIGNATURE_SPACING}
+          position={position}
+        />
+      ))}
+
+      {rhythm && layout && (
+        <>
+          <TimeSignatureSign timeSignature={rhythm.timeSignature} x={timeSignatureX} />
+
+          {/* Bar lines, ending with a thin and a thick line */}
+          {layout.barlines.map((x) => (
+            <line key={x} x1={x} y1={staffY(8)} x2={x} y2={staffY(0)} stroke="#000" strokeWidth="2" />
+          ))}
+          <line
+            x1={layout.finalBarline - 7}
+            y1={staffY(8)}
+            x2={layout.finalBarline - 7}
+            y2={staffY(0)}
+            stroke="#000"
+            strokeWidth="2"
+          />
+          <rect
+            x={layout.finalBarline - 4}
+            y={staffY(8) - 1}
+            width="5"
+            height={staffY(0) - staffY(8) + 2}
+            fill="#000"
+          />
+
+          {rhythm.events.map(
+            (event, index) =>
+              event.rest && (
+                <RestSign key={index} duration={event.duration} dotted={event.dotted} x={layout.eventXs[index]} />
+              ),
+          )}
+
+          <Stems
+            events={rhythm.events}
+            positions={rhythm.events.map((event, index) =>
+              event.rest ? null : staffPosition(notes[layout.noteEvents.indexOf(index)], clef),
+            )}
+            xs={layout.eventXs}
+            groups={beamGroups(rhythm.events, rhythm.timeSignature)}
+          />
+        </>
+      )}
+
+      {notes.map((note, index) => {
+        const value = layout && rhythm?.events[layout.noteEvents[index]]
+        return (
+          <StaffNote
+            key={index}
+            note={note}
+            clef={clef}
+            accidental={accidentals[index]}
+            x={xPositions[index]}
+            noteOffset={offsets[index]?.note}
+            accidentalOffset={offsets[index]?.accidental}
+            color={markColor(marks[index])}
+            filled={value ? value.duration !== "whole" && value.duration !== "half" : false}
+            dotted={value ? value.dotted : false}
+          />
+        )
+      })}
+
+      {/* Preview of the note a click would write */}
+      {onPositionClick && hovered !== null && (
+        <g opacity="0.5" pointerEvents="none">
+          {ledgerLinePositions(hovered).map((line) => (
+            <line
+              key={line}
+              x1={SINGLE_NOTE_X - 15}
+              y1={staffY(line)}
+              x2={SINGLE_NOTE_X + 15}
+              y2={staffY(line)}
+              stroke={INPUT_PREVIEW_COLOR}
+              strokeWidth="2"
+            />
+          ))}
+          <ellipse
+            cx={SINGLE_NOTE_X}
+            cy={staffY(hovered)}
+            rx="10"
+            ry="7"
+            fill="none"
+            stroke={INPUT_PREVIEW_COLOR}
+            strokeWidth="2"
+          />
+        </g>
+      )}
+
+      {/* Click targets, one for each line and space */}
+      {onPositionClick && (
+        <g onMouseLeave={() => setHovered(null)}>
+          {Array.from({ length: inputHighest - inputLowest + 1 }, (_, index) => {
+            const position = inputLowest + index
+            return (
+              <rect
+                key={position}
+                x="20"
+                y={staffY(position) - STAFF_STEP / 2}
+                width={width - 40}
+                height={STAFF_STEP}
+                fill="transparent"
+                className="cursor-pointer"
+                onMouseEnter={() => setHovered(position)}
+                onClick={(event) => onPositionClick(position, event)}
+              />
+            )
+          })}
+        </g>
+      )}
+    </svg>
+  )
+}
+
+// Question display: the notes with their names underneath, unless reading them is the question
+export function Staff({
+  prompt,
+  showNames = true,
+  caption,
+  ...drawing
+}: StaffDrawingProps & {
+  prompt: string
+  showNames?: boolean
+  // Shown instead of the note names, e.g. a chord symbol
+  caption?: string
+}) {
+  return (
+    <div className="flex flex-col items-center">
+      <h3 className="text-lg font-semibold mb-4">{prompt}</h3>
+      <StaffDrawing {...drawing} />
+      {showNames && (
+        <p className="mt-2 text-sm text-muted-foreground">
+          {caption ?? drawing.notes.map((note) => formatPitch(note)).join(", ")}
+        </p>
+      )}
+    </div>
+  )
+}
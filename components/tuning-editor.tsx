@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { StaffDrawing } from "@/components/staff"
+import {
+  HIGHEST_OPEN_STRING,
+  LOWEST_OPEN_STRING,
+  describeTuning,
+  formatPitch,
+  parsePitch,
+  type Clef,
+  type Pitch,
+  type Tuning,
+} from "@/lib/music"
+
+const openStringSchema = z
+  .string()
+  .trim()
+  .refine((value) => parsePitch(value) !== null, "Enter a note and octave, e.g. E2 or Bb3")
+  .refine((value) => Math.abs(parsePitch(value)?.accidental ?? 0) < 2, "Use at most one sharp or flat")
+  .refine(
+    (value) => {
+      const pitch = parsePitch(value)
+      return !pitch || (pitch.midi >= LOWEST_OPEN_STRING.midi && pitch.midi <= HIGHEST_OPEN_STRING.midi)
+    },
+    `Open strings must lie between ${formatPitch(LOWEST_OPEN_STRING)} and ${formatPitch(HIGHEST_OPEN_STRING)}`,
+  )
+
+const tuningFormSchema = z.object({
+  name: z.string().trim().min(1, "Give the tuning a name").max(40, "Keep the name under 40 characters"),
+  strings: z.array(z.object({ note: openStringSchema })),
+})
+
+type TuningFormValues = z.infer<typeof tuningFormSchema>
+
+// Dialog for entering a pitch per string, previewing the open strings and saving the result
+export function TuningEditor({
+  tuning,
+  clef,
+  customTunings,
+  onSave,
+  onDelete,
+}: {
+  tuning: Tuning
+  clef: Clef
+  customTunings: Tuning[]
+  onSave: (tuning: Tuning) => void
+  onDelete: (tuning: Tuning) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const form = useForm<TuningFormValues>({ resolver: zodResolver(tuningFormSchema) })
+  const { fields } = useFieldArray({ control: form.control, name: "strings" })
+
+  // Preview whichever strings currently parse, lowest string first
+  const preview = (form.watch("strings") ?? [])
+    .map((string) => parsePitch(string.note))
+    .filter((pitch): pitch is Pitch => pitch !== null)
+    .reverse()
+
+  // Start each edit from the tuning currently in use
+  const handleOpenChange = (value: boolean) => {
+    if (value) form.reset({ name: "", strings: tuning.strings.map((pitch) => ({ note: formatPitch(pitch) })) })
+    setOpen(value)
+  }
+
+  const handleSubmit = (values: TuningFormValues) => {
+    onSave({
+      id: `custom-${Date.now()}`,
+      name: values.name,
+      strings: values.strings.map((string) => parsePitch(string.note) as Pitch),
+    })
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          Custom tuning…
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom tuning</DialogTitle>
+          <DialogDescription>Enter the open-string pitch for each string, 1st string first.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Open C" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {fields.map((item, index) => (
+                <FormField
+                  key={item.id}
+                  control={form.control}
+                  name={`strings.${index}.note`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>String {index + 1}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <div className="overflow-x-auto border rounded-md bg-white">
+              <StaffDrawing notes={preview} clef={clef} />
+            </div>
+            <DialogFooter>
+              <Button type="submit">Save tuning</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+        {customTunings.length > 0 && (
+          <div className="border-t pt-4 space-y-2">
+            <h4 className="text-sm font-medium">Saved tunings</h4>
+            {customTunings.map((saved) => (
+              <div key={saved.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {saved.name} ({describeTuning(saved)})
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => onDelete(saved)} aria-label={`Delete ${saved.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+
+// State mirrored to localStorage under `key`. The stored value is read after mount so the
+// server render and the first client render agree.
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = React.useState<T>(initialValue)
+  const [loaded, setLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      if (stored !== null) setValue(JSON.parse(stored) as T)
+    } catch {
+      // Unreadable or blocked storage: keep the initial value
+    }
+    setLoaded(true)
+  }, [key])
+
+  React.useEffect(() => {
+    if (!loaded) return
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch {
+      // Storage full or blocked: the value still lives for this session
+    }
+  }, [key, value, loaded])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,79 @@
+import * as React from "react"
+
+// Each click is a short beep, higher on the first beat of a measure
+const CLICK_LENGTH = 0.03
+const ACCENT_FREQUENCY = 1760
+const BEAT_FREQUENCY = 1320
+// Seconds allowed for scheduling before the first click sounds
+const START_DELAY = 0.1
+
+// When a sound scheduled at `time` on the audio clock reaches the speakers, on the performance.now() clock.
+// The output timestamp pairs the two clocks at the sample being heard now; until the browser has one, the
+// output latency is added to the time the sound is rendered. Not every browser has both
+function toPerformanceTime(context: AudioContext, time: number) {
+  const { contextTime, performanceTime } = context.getOutputTimestamp?.() ?? {}
+  if (contextTime !== undefined && performanceTime) return performanceTime + (time - contextTime) * 1000
+  return performance.now() + (time - context.currentTime + (context.outputLatency || 0)) * 1000
+}
+
+// Metronome clicks scheduled ahead on the Web Audio clock, which keeps steadier time than timers.
+// The audio context is created on the first start, which should come from a click so browsers allow sound.
+export function useMetronome() {
+  const contextRef = React.useRef<AudioContext | null>(null)
+  const clicksRef = React.useRef<OscillatorNode[]>([])
+  // Bumped on every stop, so a start still waiting for the audio to resume knows it was overtaken
+  const runRef = React.useRef(0)
+  // Cleared once the component is gone, so a late start doesn't open an audio context nobody closes
+  const mountedRef = React.useRef(false)
+
+  const stop = React.useCallback(() => {
+    runRef.current++
+    clicksRef.current.forEach((click) => click.stop())
+    clicksRef.current = []
+  }, [])
+
+  // Play `count` clicks `interval` seconds apart, accenting every `accentEvery`th starting with the
+  // first. Resolves to when the first click is heard, on the performance.now() clock, or to null when
+  // stopped, started again or unmounted before the clicks could be scheduled. Rejects when the browser
+  // has no audio to give
+  const start = React.useCallback(
+    async (count: number, interval: number, accentEvery: number) => {
+      stop()
+      const run = runRef.current
+      if (!mountedRef.current) return null
+      const context = contextRef.current ?? new AudioContext()
+      contextRef.current = context
+      // The audio clock stands still until the context is running
+      await context.resume()
+      if (run !== runRef.current || context.state !== "running") return null
+
+      const first = context.currentTime + START_DELAY
+      for (let index = 0; index < count; index++) {
+        const time = first + index * interval
+        const click = context.createOscillator()
+        const volume = context.createGain()
+        click.frequency.value = index % accentEvery === 0 ? ACCENT_FREQUENCY : BEAT_FREQUENCY
+        volume.gain.setValueAtTime(0.5, time)
+        volume.gain.exponentialRampToValueAtTime(0.001, time + CLICK_LENGTH)
+        click.connect(volume).connect(context.destination)
+        click.start(time)
+        click.stop(time + CLICK_LENGTH)
+        clicksRef.current.push(click)
+      }
+      return toPerformanceTime(context, first)
+    },
+    [stop],
+  )
+
+  React.useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+      stop()
+      void contextRef.current?.close()
+      contextRef.current = null
+    }
+  }, [stop])
+
+  return { start, stop }
+}
@@ -0,0 +1,171 @@
+import { stringStart, type FretNote, type FretPosition } from "./fretboard"
+import type { Instrument } from "./instruments"
+import { intervalAbove, type Interval } from "./intervals"
+import { formatSpelling, type Pitch, type PitchSpelling } from "./pitch"
+
+export interface ChordType {
+  id: string
+  name: string
+  // Written after the root in a chord symbol, e.g. "m7" in "Am7"
+  symbol: string
+  // Chord tones above the root, lowest first
+  intervals: Interval[]
+}
+
+const MAJOR_THIRD: Interval = { number: 3, quality: "major" }
+const MINOR_THIRD: Interval = { number: 3, quality: "minor" }
+const PERFECT_FIFTH: Interval = { number: 5, quality: "perfect" }
+
+export const TRIADS: ChordType[] = [
+  { id: "major", name: "Major", symbol: "", intervals: [MAJOR_THIRD, PERFECT_FIFTH] },
+  { id: "minor", name: "Minor", symbol: "m", intervals: [MINOR_THIRD, PERFECT_FIFTH] },
+  {
+    id: "diminished",
+    name: "Diminished",
+    symbol: "°",
+    intervals: [MINOR_THIRD, { number: 5, quality: "diminished" }],
+  },
+  {
+    id: "augmented",
+    name: "Augmented",
+    symbol: "+",
+    intervals: [MAJOR_THIRD, { number: 5, quality: "augmented" }],
+  },
+]
+
+export const SEVENTH_CHORDS: ChordType[] = [
+  {
+    id: "major-7",
+    name: "Major 7th",
+    symbol: "maj7",
+    intervals: [MAJOR_THIRD, PERFECT_FIFTH, { number: 7, quality: "major" }],
+  },
+  {
+    id: "dominant-7",
+    name: "Dominant 7th",
+    symbol: "7",
+    intervals: [MAJOR_THIRD, PERFECT_FIFTH, { number: 7, quality: "minor" }],
+  },
+  {
+    id: "minor-7",
+    name: "Minor 7th",
+    symbol: "m7",
+    intervals: [MINOR_THIRD, PERFECT_FIFTH, { number: 7, quality: "minor" }],
+  },
+  {
+    id: "half-diminished-7",
+    name: "Half-diminished 7th",
+    symbol: "ø7",
+    intervals: [MINOR_THIRD, { number: 5, quality: "diminished" }, { number: 7, quality: "minor" }],
+  },
+  {
+    id: "diminished-7",
+    name: "Diminished 7th",
+    symbol: "°7",
+    intervals: [MINOR_THIRD, { number: 5, quality: "diminished" }, { number: 7, quality: "diminished" }],
+  },
+]
+
+// Close voicings stack the chord tones within an octave; open voicings spread triads (root, fifth,
+// tenth) and drop the second-highest note of a seventh chord an octave (drop 2), as guitarists play them
+export type ChordVoicing = "close" | "open"
+
+// Written notes of a chord from the bottom up; null when a chord tone would need a double accidental
+export function buildChord(root: Pitch, type: ChordType, voicing: ChordVoicing): Pitch[] | null {
+  const tones = [root, ...type.intervals.map((interval) => intervalAbove(root, interval))]
+  if (tones.some((tone) => !tone || Math.abs(tone.accidental) > 1)) return null
+  const close = tones as Pitch[]
+  if (voicing === "close") return close
+
+  const octaveUp = (pitch: Pitch) => ({ ...pitch, octave: pitch.octave + 1, midi: pitch.midi + 12 })
+  const octaveDown = (pitch: Pitch) => ({ ...pitch, octave: pitch.octave - 1, midi: pitch.midi - 12 })
+  if (close.length === 3) return [close[0], close[2], octaveUp(close[1])]
+  const dropped = close[close.length - 2]
+  return [octaveDown(dropped), ...close.filter((tone) => tone !== dropped)]
+}
+
+export function chordSymbol(root: PitchSpelling, type: ChordType) {
+  return `${formatSpelling(root, { unicode: true })}${type.symbol}`
+}
+
+// Frets one hand can hold at once; open strings don't count
+export const MAX_CHORD_SPAN = 4
+
+export function isReachable(positions: FretPosition[], instrument: Instrument, capo: number) {
+  const fretted = positions
+    .filter((position) => position.fret > stringStart(instrument, position.stringIndex, capo))
+    .map((position) => position.fret)
+  return fretted.length === 0 || Math.max(...fretted) - Math.min(...fretted) < MAX_CHORD_SPAN
+}
+
+// A voicing that plays each written pitch once, one note per string, from positions in the pool;
+// positions are returned in the order of the notes, lowest frets preferred. Null when none is reachable
+export function findVoicing(
+  notes: Pitch[],
+  pool: FretNote[],
+  instrument: Instrument,
+  capo: number,
+): FretPosition[] | null {
+  const candidates = notes.map((note) =>
+    pool.filter((position) => position.pitch.midi === note.midi).sort((a, b) => a.fret - b.fret),
+  )
+
+  const search = (chosen: FretPosition[]): FretPosition[] | null => {
+    if (!isReachable(chosen, instrument, capo)) return null
+    if (chosen.length === notes.length) return chosen
+    for (const { stringIndex, fret } of candidates[chosen.length]) {
+      if (chosen.some((position) => position.stringIndex === stringIndex)) continue
+      const voicing = search([...chosen, { stringIndex, fret }])
+      if (voicing) return voicing
+    }
+    return null
+  }
+
+  return search([])
+}
+
+// Whether the positions play exactly the written pitches, one note per string, within reach
+export function isVoicingOf(
+  positions: FretPosition[],
+  notes: Pitch[],
+  pool: FretNote[],
+  instrument: Instrument,
+  capo: number,
+) {
+  const midis = positions.map(
+    (position) =>
+      pool.find((note) => note.stringIndex === position.stringIndex && note.fret === position.fret)?.pitch.midi,
+  )
+  const strings = new Set(positions.map((position) => position.stringIndex))
+  const sorted = (values: (number | undefined)[]) => [...values].sort((a, b) => (a ?? 0) - (b ?? 0)).join()
+  return (
+    strings.size === positions.length &&
+    midis.every((midi) => midi !== undefined) &&
+    sorted(midis) === sorted(notes.map((note) => note.midi)) &&
+    isReachable(positions, instrument, capo)
+  )
+}
+
+// Pick a chord on one of the roots with a voicing that can be played from the pool; null when no
+// combination of root, chord type and voicing fits
+export function pickChord(
+  roots: number[],
+  spell: (midi: number) => Pitch,
+  types: ChordType[],
+  voicings: ChordVoicing[],
+  pool: FretNote[],
+  instrument: Instrument,
+  capo: number,
+): { symbol: string; notes: Pitch[] } | null {
+  const candidates = roots.flatMap((midi) =>
+    types.flatMap((type) => voicings.map((voicing) => ({ midi, type, voicing }))),
+  )
+
+  while (candidates.length > 0) {
+    const [{ midi, type, voicing }] = candidates.splice(Math.floor(Math.random() * candidates.length), 1)
+    const root = spell(midi)
+    const notes = buildChord(root, type, voicing)
+    if (notes && findVoicing(notes, pool, instrument, capo)) return { symbol: chordSymbol(root, type), notes }
+  }
+  return null
+}
@@ -0,0 +1,115 @@
+import type { Instrument } from "./instruments"
+import { isDiatonic, type Key } from "./keys"
+import { transposePitch, type Pitch } from "./pitch"
+import { scaleContains, type Scale } from "./scales"
+import type { Tuning } from "./tuning"
+
+export interface FretPosition {
+  stringIndex: number
+  fret: number
+}
+
+export interface FretNote extends FretPosition {
+  pitch: Pitch
+}
+
+export interface FretRange {
+  min: number
+  max: number
+}
+
+export interface NotePoolOptions {
+  enabledStrings: boolean[]
+  includeAccidentals: boolean
+  // Fret the capo is clamped behind, 0 for no capo
+  capo: number
+  // Frets to ask about, counted from the capo when one is on
+  fretRange: FretRange
+  // Also ask about unfretted strings at the nut (or where a short string starts). While off, a short string's
+  // open note is left out even inside the fret range
+  includeOpenStrings: boolean
+  // Only ask about notes in this key's scale; includeAccidentals is ignored while set
+  diatonicKey: Key | null
+  // Only ask about members of this scale; also overrides includeAccidentals
+  scale: Scale | null
+}
+
+// Highest capo position offered
+export const MAX_CAPO_FRET = 12
+
+// First position: the frets beginners learn before moving up the neck
+export const DEFAULT_FRET_RANGE: FretRange = { min: 1, max: 5 }
+
+// Absolute frets covered by a capo-relative fret range, cut off at the end of the neck
+export function activeFretRange(instrument: Instrument, fretRange: FretRange, capo: number): FretRange {
+  return { min: capo + fretRange.min, max: Math.min(instrument.fretCount, capo + fretRange.max) }
+}
+
+// Shrink a fret range so it fits between the capo and the end of the neck
+export function fitFretRange(instrument: Instrument, fretRange: FretRange, capo: number): FretRange {
+  const highest = instrument.fretCount - capo
+  return { min: Math.min(fretRange.min, highest), max: Math.min(fretRange.max, highest) }
+}
+
+// Lowest fret that exists on a string; a short string is tuned to its open pitch at this fret
+export function firstFret(instrument: Instrument, stringIndex: number) {
+  return instrument.firstFrets?.[stringIndex] ?? 0
+}
+
+// Lowest playable fret on a string: where it starts, or the capo if that is higher up the neck
+export function stringStart(instrument: Instrument, stringIndex: number, capo: number) {
+  return Math.max(firstFret(instrument, stringIndex), capo)
+}
+
+// Function to get note at specific fret (at or above the string's first fret)
+export function getNoteAtFret(instrument: Instrument, tuning: Tuning, stringIndex: number, fret: number): FretNote {
+  return {
+    pitch: transposePitch(tuning.strings[stringIndex], fret - firstFret(instrument, stringIndex)),
+    stringIndex,
+    fret,
+  }
+}
+
+// Whether a string's open note (at the nut, the capo or where a short string starts) is in the pool
+export function openStringsInPool(capo: number, includeOpenStrings: boolean) {
+  return capo > 0 || includeOpenStrings
+}
+
+// Generate all possible notes on fretboard within the fret range. Frets are counted from the
+// nut; with a capo on, the range shifts up with it and the open-at-capo notes always count
+export function generateFretboardNotes(
+  instrument: Instrument,
+  tuning: Tuning,
+  { enabledStrings, includeAccidentals, capo, fretRange, includeOpenStrings, diatonicKey, scale }: NotePoolOptions,
+) {
+  const { min, max } = activeFretRange(instrument, fretRange, capo)
+  const notes: FretNote[] = []
+  for (let stringIndex = 0; stringIndex < tuning.strings.length; stringIndex++) {
+    if (!enabledStrings[stringIndex]) continue
+
+    const start = stringStart(instrument, stringIndex, capo)
+    for (let fret = start; fret <= max; fret++) {
+      const open = fret === start && openStringsInPool(capo, includeOpenStrings)
+      if (fret === start && start > 0 && !open) continue
+      if (fret < min && !open) continue
+
+      const note = getNoteAtFret(instrument, tuning, stringIndex, fret)
+
+      // Skip notes outside the key or scale, or sharps/flats if not included
+      if (diatonicKey && !isDiatonic(note.pitch.midi, diatonicKey)) continue
+      if (scale && !scaleContains(scale, note.pitch.midi)) continue
+      if (!diatonicKey && !scale && !includeAccidentals && note.pitch.accidental !== 0) continue
+
+      notes.push(note)
+    }
+  }
+
+  return notes
+}
+
+// Every position in the pool that sounds the pitch, whatever its spelling
+export function findPositions(notes: FretNote[], pitch: Pitch): FretPosition[] {
+  return notes
+    .filter((note) => note.pitch.midi === pitch.midi)
+    .map((note) => ({ stringIndex: note.stringIndex, fret: note.fret }))
+}
@@ -0,0 +1,13 @@
+export * from "./chords"
+export * from "./fretboard"
+export * from "./instruments"
+export * from "./intervals"
+export * from "./keys"
+export * from "./melody"
+export * from "./pitch"
+export * from "./positions"
+export * from "./rhythm"
+export * from "./scales"
+export * from "./spelling"
+export * from "./staff"
+export * from "./tuning"
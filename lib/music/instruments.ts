@@ -0,0 +1,120 @@
+import { BASS_8VB_CLEF, TREBLE_8VB_CLEF, TREBLE_CLEF, type Clef } from "./staff"
+import { GUITAR_TUNINGS, createTuning, type Tuning } from "./tuning"
+
+export interface Instrument {
+  id: string
+  name: string
+  stringCount: number
+  // Preset tunings, the first being the instrument's standard tuning
+  tunings: Tuning[]
+  defaultClef: Clef
+  // Highest fret on the neck
+  fretCount: number
+  // First fret of each string, 1st string first, for strings that start partway up the neck
+  firstFrets?: number[]
+}
+
+export const GUITAR: Instrument = {
+  id: "guitar",
+  name: "Guitar",
+  stringCount: 6,
+  tunings: GUITAR_TUNINGS,
+  defaultClef: TREBLE_8VB_CLEF,
+  fretCount: 22,
+}
+
+export const INSTRUMENTS: Instrument[] = [
+  GUITAR,
+  {
+    id: "guitar-7",
+    name: "7-string guitar",
+    stringCount: 7,
+    tunings: [
+      createTuning("guitar-7-standard", "Standard", "B1 E2 A2 D3 G3 B3 E4"),
+      createTuning("guitar-7-drop-a", "Drop A", "A1 E2 A2 D3 G3 B3 E4"),
+    ],
+    defaultClef: TREBLE_8VB_CLEF,
+    fretCount: 24,
+  },
+  {
+    id: "guitar-8",
+    name: "8-string guitar",
+    stringCount: 8,
+    tunings: [
+      createTuning("guitar-8-standard", "Standard", "F#1 B1 E2 A2 D3 G3 B3 E4"),
+      createTuning("guitar-8-drop-e", "Drop E", "E1 B1 E2 A2 D3 G3 B3 E4"),
+    ],
+    defaultClef: TREBLE_8VB_CLEF,
+    fretCount: 24,
+  },
+  {
+    id: "bass-4",
+    name: "4-string bass",
+    stringCount: 4,
+    tunings: [
+      createTuning("bass-4-standard", "Standard", "E1 A1 D2 G2"),
+      createTuning("bass-4-drop-d", "Drop D", "D1 A1 D2 G2"),
+      createTuning("bass-4-half-step-down", "Half step down (E♭ standard)", "Eb1 Ab1 Db2 Gb2"),
+    ],
+    defaultClef: BASS_8VB_CLEF,
+    fretCount: 20,
+  },
+  {
+    id: "bass-5",
+    name: "5-string bass",
+    stringCount: 5,
+    tunings: [
+      createTuning("bass-5-standard", "Standard", "B0 E1 A1 D2 G2"),
+      createTuning("bass-5-high-c", "High C", "E1 A1 D2 G2 C3"),
+    ],
+    defaultClef: BASS_8VB_CLEF,
+    fretCount: 24,
+  },
+  {
+    id: "bass-6",
+    name: "6-string bass",
+    stringCount: 6,
+    tunings: [createTuning("bass-6-standard", "Standard", "B0 E1 A1 D2 G2 C3")],
+    defaultClef: BASS_8VB_CLEF,
+    fretCount: 24,
+  },
+  {
+    // Re-entrant: the 4th string is tuned above the 3rd
+    id: "ukulele",
+    name: "Ukulele",
+    stringCount: 4,
+    tunings: [
+      createTuning("ukulele-high-g", "High G (re-entrant)", "G4 C4 E4 A4"),
+      createTuning("ukulele-low-g", "Low G", "G3 C4 E4 A4"),
+      createTuning("ukulele-d", "D tuning", "A4 D4 F#4 B4"),
+    ],
+    defaultClef: TREBLE_CLEF,
+    fretCount: 15,
+  },
+  {
+    id: "baritone-ukulele",
+    name: "Baritone ukulele",
+    stringCount: 4,
+    tunings: [createTuning("baritone-ukulele-standard", "Standard", "D3 G3 B3 E4")],
+    defaultClef: TREBLE_8VB_CLEF,
+    fretCount: 19,
+  },
+  {
+    // The short 5th string is a high drone whose tuning peg sits at the 5th fret
+    id: "banjo-5",
+    name: "5-string banjo",
+    stringCount: 5,
+    tunings: [
+      createTuning("banjo-open-g", "Open G", "G4 D3 G3 B3 D4"),
+      createTuning("banjo-double-c", "Double C", "G4 C3 G3 C4 D4"),
+      createTuning("banjo-g-modal", "G modal (sawmill)", "G4 D3 G3 C4 D4"),
+    ],
+    defaultClef: TREBLE_8VB_CLEF,
+    fretCount: 22,
+    firstFrets: [0, 0, 0, 0, 5],
+  },
+]
+
+export function findInstrument(id: string) {
+  return INSTRUMENTS.find((instrument) => instrument.id === id)
+}
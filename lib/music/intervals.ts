@@ -0,0 +1,133 @@
+import type { FretNote } from "./fretboard"
+import { LETTERS, diatonicIndex, spellWithLetter, type Pitch } from "./pitch"
+
+export type IntervalQuality = "perfect" | "major" | "minor" | "augmented" | "diminished"
+
+export interface Interval {
+  // 1 for a unison, 3 for a third, 8 for an octave
+  number: number
+  quality: IntervalQuality
+}
+
+// Semitones of the major and perfect intervals from a unison to a seventh
+const MAJOR_SCALE_SEMITONES = [0, 2, 4, 5, 7, 9, 11]
+
+// Unisons, fourths and fifths (and their octaves) are perfect rather than major or minor
+function isPerfectNumber(number: number) {
+  return [0, 3, 4].includes((number - 1) % 7)
+}
+
+// Semitones added to the major or perfect interval for each quality
+const PERFECT_OFFSETS: Partial<Record<IntervalQuality, number>> = { diminished: -1, perfect: 0, augmented: 1 }
+const MAJOR_OFFSETS: Partial<Record<IntervalQuality, number>> = { diminished: -2, minor: -1, major: 0, augmented: 1 }
+
+const QUALITY_NAMES: Record<IntervalQuality, string> = {
+  perfect: "Perfect",
+  major: "Major",
+  minor: "Minor",
+  augmented: "Augmented",
+  diminished: "Diminished",
+}
+const QUALITY_SYMBOLS: Record<IntervalQuality, string> = {
+  perfect: "P",
+  major: "M",
+  minor: "m",
+  augmented: "A",
+  diminished: "d",
+}
+const NUMBER_NAMES = ["Unison", "2nd", "3rd", "4th", "5th", "6th", "7th", "Octave"]
+
+// Intervals asked in the interval drill: everything up to an octave, with both spellings of the tritone
+export const DRILL_INTERVALS: Interval[] = [
+  { number: 2, quality: "minor" },
+  { number: 2, quality: "major" },
+  { number: 3, quality: "minor" },
+  { number: 3, quality: "major" },
+  { number: 4, quality: "perfect" },
+  { number: 4, quality: "augmented" },
+  { number: 5, quality: "diminished" },
+  { number: 5, quality: "perfect" },
+  { number: 6, quality: "minor" },
+  { number: 6, quality: "major" },
+  { number: 7, quality: "minor" },
+  { number: 7, quality: "major" },
+  { number: 8, quality: "perfect" },
+]
+
+// Semitones in the major or perfect interval of a number
+function referenceSemitones(number: number) {
+  const steps = number - 1
+  return MAJOR_SCALE_SEMITONES[steps % 7] + Math.floor(steps / 7) * 12
+}
+
+export function intervalSemitones(interval: Interval) {
+  const offsets = isPerfectNumber(interval.number) ? PERFECT_OFFSETS : MAJOR_OFFSETS
+  return referenceSemitones(interval.number) + (offsets[interval.quality] ?? 0)
+}
+
+// Interval from the lower pitch up to the upper one, named by their letters; null when the upper
+// pitch is lower or the interval is more than augmented or diminished
+export function intervalBetween(lower: Pitch, upper: Pitch): Interval | null {
+  const steps = diatonicIndex(upper) - diatonicIndex(lower)
+  if (steps < 0) return null
+
+  const number = steps + 1
+  const difference = upper.midi - lower.midi - referenceSemitones(number)
+  const offsets = isPerfectNumber(number) ? PERFECT_OFFSETS : MAJOR_OFFSETS
+  const quality = (Object.keys(offsets) as IntervalQuality[]).find((key) => offsets[key] === difference)
+  return quality ? { number, quality } : null
+}
+
+// The pitch an interval above, on the letter the interval's number calls for
+export function intervalAbove(pitch: Pitch, interval: Interval): Pitch | null {
+  const letter = LETTERS[(LETTERS.indexOf(pitch.letter) + interval.number - 1) % 7]
+  return spellWithLetter(pitch.midi + intervalSemitones(interval), letter)
+}
+
+export function isSameInterval(a: Interval, b: Interval) {
+  return a.number === b.number && a.quality === b.quality
+}
+
+// "Major 3rd", or "M3" when short; a perfect unison and octave are just "Unison" and "Octave"
+export function formatInterval(interval: Interval, { short = false }: { short?: boolean } = {}) {
+  if (short) return `${QUALITY_SYMBOLS[interval.quality]}${interval.number}`
+  const name = NUMBER_NAMES[interval.number - 1] ?? `${interval.number}th`
+  if (interval.quality === "perfect" && (interval.number === 1 || interval.number === 8)) return name
+  return `${QUALITY_NAMES[interval.quality]} ${name.toLowerCase()}`
+}
+
+// Pick two pool pitches an interval apart: the lower one spelled by `spell`, the upper one from the
+// interval so it reads correctly. Intervals whose upper note would need a double accidental are left
+// out; null when nothing in the pool fits. Given the positions a harmonic interval is played from, both
+// notes must also be found on strings of their own
+export function pickInterval(
+  midis: number[],
+  spell: (midi: number) => Pitch,
+  harmonicPositions: FretNote[] | null = null,
+): [Pitch, Pitch] | null {
+  const pool = new Set(midis)
+  const onTwoStrings = (lower: number, upper: number) =>
+    !harmonicPositions ||
+    new Set(
+      harmonicPositions
+        .filter((note) => note.pitch.midi === lower || note.pitch.midi === upper)
+        .map((note) => note.stringIndex),
+    ).size > 1
+  const candidates = midis.flatMap((midi) =>
+    DRILL_INTERVALS.filter((interval) => {
+      const upper = midi + intervalSemitones(interval)
+      return pool.has(upper) && onTwoStrings(midi, upper)
+    }).map((interval) => ({
+      midi,
+      interval,
+    })),
+  )
+
+  while (candidates.length > 0) {
+    const [{ midi, interval }] = candidates.splice(Math.floor(Math.random() * candidates.length), 1)
+    const lower = spell(midi)
+    const upper = intervalAbove(lower, interval)
+    if (upper && Math.abs(upper.accidental) < 2) return [lower, upper]
+  }
+  return null
+}
@@ -0,0 +1,81 @@
+import {
+  LETTERS,
+  createPitch,
+  enharmonicSpellings,
+  formatSpelling,
+  pitchClass,
+  pitchFromMidi,
+  type Accidental,
+  type Letter,
+  type Pitch,
+  type PitchSpelling,
+} from "./pitch"
+
+export type KeyMode = "major" | "minor"
+
+export interface Key {
+  id: string
+  name: string
+  tonic: PitchSpelling
+  mode: KeyMode
+  // Sharps (positive) or flats (negative) in the key signature, -7 to 7
+  fifths: number
+}
+
+// Order in which sharps are added to a key signature; flats use the reverse
+export const SHARP_ORDER: Letter[] = ["F", "C", "G", "D", "A", "E", "B"]
+export const FLAT_ORDER: Letter[] = [...SHARP_ORDER].reverse()
+
+// Alteration the key signature applies to each letter
+export function keySignatureAccidentals(fifths: number): Record<Letter, Accidental> {
+  const accidentals: Record<Letter, Accidental> = { C: 0, D: 0, E: 0, F: 0, G: 0, A: 0, B: 0 }
+  const order = fifths >= 0 ? SHARP_ORDER : FLAT_ORDER
+  order.slice(0, Math.abs(fifths)).forEach((letter) => {
+    accidentals[letter] = fifths > 0 ? 1 : -1
+  })
+  return accidentals
+}
+
+function createKey(fifths: number, mode: KeyMode): Key {
+  // Each fifth moves the tonic four letters up; minor tonics sit a sixth above the relative major
+  const letter = LETTERS[(((fifths * 4 + (mode === "minor" ? 5 : 0)) % 7) + 7) % 7]
+  const tonic = { letter, accidental: keySignatureAccidentals(fifths)[letter] }
+  return {
+    id: `${formatSpelling(tonic)}-${mode}`,
+    name: `${formatSpelling(tonic, { unicode: true })} ${mode}`,
+    tonic,
+    mode,
+    fifths,
+  }
+}
+
+const FIFTHS = Array.from({ length: 15 }, (_, i) => i - 7)
+
+// All fifteen major and fifteen minor keys, flattest first
+export const MAJOR_KEYS = FIFTHS.map((fifths) => createKey(fifths, "major"))
+export const MINOR_KEYS = FIFTHS.map((fifths) => createKey(fifths, "minor"))
+export const KEYS = [...MAJOR_KEYS, ...MINOR_KEYS]
+
+export const C_MAJOR = MAJOR_KEYS[7]
+
+export function findKey(id: string) {
+  return KEYS.find((key) => key.id === id)
+}
+
+// Whether a MIDI number belongs to the key's scale (natural minor for minor keys), whatever its spelling
+export function isDiatonic(midi: number, key: Key) {
+  const accidentals = keySignatureAccidentals(key.fifths)
+  return LETTERS.some(
+    (letter) => pitchClass(createPitch(letter, accidentals[letter], 4)) === pitchClass(pitchFromMidi(midi)),
+  )
+}
+
+// Spell a MIDI number as it would appear in the key: diatonic notes take the key
+// signature's spelling, chromatic notes use sharps in sharp keys and flats in flat keys
+export function spellInKey(midi: number, key: Key): Pitch {
+  const accidentals = keySignatureAccidentals(key.fifths)
+  const diatonic = enharmonicSpellings(pitchFromMidi(midi)).find(
+    (pitch) => pitch.accidental === accidentals[pitch.letter],
+  )
+  return diatonic ?? pitchFromMidi(midi, key.fifths < 0 ? "flat" : "sharp")
+}
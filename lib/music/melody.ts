@@ -0,0 +1,58 @@
+import { diatonicIndex, type Pitch } from "./pitch"
+
+export interface PhraseOptions {
+  // Number of notes, 4 to 16
+  length: number
+  // Chance from 0 to 1 that a note leaps (a third or more) rather than steps to a neighbouring letter
+  leapChance: number
+  // Semitones between the lowest and highest note the phrase may use
+  range: number
+}
+
+export const PHRASE_LENGTHS = [4, 6, 8, 12, 16]
+
+export const LEAP_MIXES: { value: number; label: string }[] = [
+  { value: 0.2, label: "Mostly steps" },
+  { value: 0.4, label: "Steps and leaps" },
+  { value: 0.7, label: "Mostly leaps" },
+]
+
+export const PHRASE_RANGES: { value: number; label: string }[] = [
+  { value: 7, label: "A fifth" },
+  { value: 12, label: "An octave" },
+  { value: 16, label: "A tenth" },
+  { value: 24, label: "Two octaves" },
+]
+
+// Largest leap, in letter steps: a sixth
+const MAX_LEAP = 5
+
+function randomItem<T>(items: T[]) {
+  return items[Math.floor(Math.random() * items.length)]
+}
+
+// A melody drawn from the given pitches: it stays within a window of `range` semitones placed at
+// random in the pool, moves by step or leap as asked, and never repeats a note straight away
+export function generatePhrase(pitches: Pitch[], { length, leapChance, range }: PhraseOptions): Pitch[] {
+  if (pitches.length < 2) return []
+
+  const lowest = randomItem(pitches).midi - Math.floor(Math.random() * (range + 1))
+  let window = pitches.filter((pitch) => pitch.midi >= lowest && pitch.midi <= lowest + range)
+  if (window.length < 2) window = pitches
+
+  const phrase = [randomItem(window)]
+  while (phrase.length < length) {
+    const current = phrase[phrase.length - 1]
+    const distance = (pitch: Pitch) => Math.abs(diatonicIndex(pitch) - diatonicIndex(current))
+    const steps = window.filter((pitch) => distance(pitch) === 1)
+    const leaps = window.filter((pitch) => distance(pitch) >= 2 && distance(pitch) <= MAX_LEAP)
+    const others = window.filter((pitch) => pitch.midi !== current.midi)
+
+    const preferred = Math.random() < leapChance ? leaps : steps
+    const fallback = preferred === leaps ? steps : leaps
+    const choices = [preferred, fallback, others].find((candidates) => candidates.length > 0)
+    if (!choices) break
+    phrase.push(randomItem(choices))
+  }
+  return phrase
+}
@@ -0,0 +1,198 @@
+// Pitches use scientific pitch notation: C4 is middle C (MIDI 60) and the octave
+// number changes between B and C, so Cb4 sounds as B3 and B#3 sounds as C4.
+
+export const LETTERS = ["C", "D", "E", "F", "G", "A", "B"] as const
+
+export type Letter = (typeof LETTERS)[number]
+
+// Alteration in semitones: -2 double flat, -1 flat, 0 natural, 1 sharp, 2 double sharp
+export type Accidental = -2 | -1 | 0 | 1 | 2
+
+export interface Pitch {
+  letter: Letter
+  accidental: Accidental
+  octave: number
+  midi: number
+}
+
+// A note name without an octave, e.g. the tonic of a key
+export type PitchSpelling = Pick<Pitch, "letter" | "accidental">
+
+export type AccidentalPreference = "sharp" | "flat"
+
+// Semitones above C for each natural letter
+const LETTER_SEMITONES: Record<Letter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+// Spellings of the twelve pitch classes, starting from C
+const SHARP_SPELLINGS: [Letter, Accidental][] = [
+  ["C", 0],
+  ["C", 1],
+  ["D", 0],
+  ["D", 1],
+  ["E", 0],
+  ["F", 0],
+  ["F", 1],
+  ["G", 0],
+  ["G", 1],
+  ["A", 0],
+  ["A", 1],
+  ["B", 0],
+]
+const FLAT_SPELLINGS: [Letter, Accidental][] = [
+  ["C", 0],
+  ["D", -1],
+  ["D", 0],
+  ["E", -1],
+  ["E", 0],
+  ["F", 0],
+  ["G", -1],
+  ["G", 0],
+  ["A", -1],
+  ["A", 0],
+  ["B", -1],
+  ["B", 0],
+]
+
+const ACCIDENTAL_TEXT: Record<Accidental, string> = { [-2]: "bb", [-1]: "b", 0: "", 1: "#", 2: "##" }
+const ACCIDENTAL_SYMBOLS: Record<Accidental, string> = { [-2]: "𝄫", [-1]: "♭", 0: "", 1: "♯", 2: "𝄪" }
+
+const ACCIDENTAL_INPUT: Record<string, Accidental> = {
+  "": 0,
+  "♮": 0,
+  "#": 1,
+  "♯": 1,
+  "##": 2,
+  "♯♯": 2,
+  x: 2,
+  "𝄪": 2,
+  b: -1,
+  "♭": -1,
+  bb: -2,
+  "♭♭": -2,
+  "𝄫": -2,
+}
+
+const PITCH_PATTERN = /^\s*([A-Ga-g])(##|♯♯|bb|♭♭|[#♯b♭x♮]|𝄪|𝄫)?(-?\d+)\s*$/u
+const SPELLING_PATTERN = /^\s*([A-Ga-g])(##|♯♯|bb|♭♭|[#♯b♭x♮]|𝄪|𝄫)?\s*$/u
+
+function mod12(value: number) {
+  return ((value % 12) + 12) % 12
+}
+
+export function createPitch(letter: Letter, accidental: Accidental, octave: number): Pitch {
+  return { letter, accidental, octave, midi: (octave + 1) * 12 + LETTER_SEMITONES[letter] + accidental }
+}
+
+// Spell a MIDI number with a single sharp or flat where one is needed
+export function pitchFromMidi(midi: number, preference: AccidentalPreference = "sharp"): Pitch {
+  const [letter, accidental] = (preference === "flat" ? FLAT_SPELLINGS : SHARP_SPELLINGS)[mod12(midi)]
+  return createPitch(letter, accidental, Math.floor(midi / 12) - 1)
+}
+
+// Spell a MIDI number on the given letter; null when that would need more than a double accidental
+export function spellWithLetter(midi: number, letter: Letter): Pitch | null {
+  const octave = Math.round((midi - LETTER_SEMITONES[letter]) / 12) - 1
+  const accidental = midi - createPitch(letter, 0, octave).midi
+  return Math.abs(accidental) <= 2 ? createPitch(letter, accidental as Accidental, octave) : null
+}
+
+// Parse "C4", "F#3", "Bb2", "E♭5", "Cx4" or "G-1"; returns null for anything else
+export function parsePitch(text: string): Pitch | null {
+  const match = PITCH_PATTERN.exec(text)
+  if (!match) return null
+
+  const [, letter, accidental = "", octave] = match
+  return createPitch(letter.toUpperCase() as Letter, ACCIDENTAL_INPUT[accidental], Number.parseInt(octave, 10))
+}
+
+// Parse a note name without an octave, such as "F#", "bb" or "E♭"; returns null for anything else
+export function parseSpelling(text: string): PitchSpelling | null {
+  const match = SPELLING_PATTERN.exec(text)
+  if (!match) return null
+
+  const [, letter, accidental = ""] = match
+  return { letter: letter.toUpperCase() as Letter, accidental: ACCIDENTAL_INPUT[accidental] }
+}
+
+export function formatPitch(
+  pitch: Pitch,
+  { octave = true, unicode = false }: { octave?: boolean; unicode?: boolean } = {},
+) {
+  return `${formatSpelling(pitch, { unicode })}${octave ? pitch.octave : ""}`
+}
+
+export function formatSpelling(spelling: PitchSpelling, { unicode = false }: { unicode?: boolean } = {}) {
+  return `${spelling.letter}${(unicode ? ACCIDENTAL_SYMBOLS : ACCIDENTAL_TEXT)[spelling.accidental]}`
+}
+
+export function pitchClass(pitch: Pitch) {
+  return mod12(pitch.midi)
+}
+
+export function spellingClass(spelling: PitchSpelling) {
+  return mod12(LETTER_SEMITONES[spelling.letter] + spelling.accidental)
+}
+
+// The names of a pitch class: the natural alone, or the sharp then the flat
+export function pitchClassSpellings(pitchClassValue: number): PitchSpelling[] {
+  const [sharpLetter, sharp] = SHARP_SPELLINGS[mod12(pitchClassValue)]
+  const [flatLetter, flat] = FLAT_SPELLINGS[mod12(pitchClassValue)]
+  if (sharp === 0) return [{ letter: sharpLetter, accidental: sharp }]
+  return [
+    { letter: sharpLetter, accidental: sharp },
+    { letter: flatLetter, accidental: flat },
+  ]
+}
+
+export function isSameSpelling(a: PitchSpelling, b: PitchSpelling) {
+  return a.letter === b.letter && a.accidental === b.accidental
+}
+
+// Whether the spelling is one of the names pitchClassSpellings gives its pitch class; E♯ and C♭ are not
+export function isUsualSpelling(spelling: PitchSpelling) {
+  return pitchClassSpellings(spellingClass(spelling)).some((usual) => isSameSpelling(usual, spelling))
+}
+
+// Number of letter steps above C0, ignoring accidentals (used for staff placement)
+export function diatonicIndex(pitch: Pitch) {
+  return pitch.octave * 7 + LETTERS.indexOf(pitch.letter)
+}
+
+// Orders by sounding pitch, then by letter so enharmonic spellings sort consistently
+export function comparePitches(a: Pitch, b: Pitch) {
+  return a.midi - b.midi || diatonicIndex(a) - diatonicIndex(b)
+}
+
+// Same spelling and octave
+export function isSamePitch(a: Pitch, b: Pitch) {
+  return a.letter === b.letter && a.accidental === b.accidental && a.octave === b.octave
+}
+
+// Same sounding pitch, regardless of spelling
+export function isEnharmonic(a: Pitch, b: Pitch) {
+  return a.midi === b.midi
+}
+
+// Whole octaves from one pitch up to another of the same pitch class; negative when it is lower
+export function octaveDifference(from: Pitch, to: Pitch) {
+  return Math.round((to.midi - from.midi) / 12)
+}
+
+// "In the written octave", or "An octave above the written one"
+export function formatOctaveDifference(octaves: number) {
+  if (octaves === 0) return "In the written octave"
+  const distance = Math.abs(octaves) === 1 ? "An octave" : `${Math.abs(octaves)} octaves`
+  return `${distance} ${octaves > 0 ? "above" : "below"} the written one`
+}
+
+// Every spelling of the pitch using at most a double sharp or double flat, simplest first
+export function enharmonicSpellings(pitch: Pitch): Pitch[] {
+  return LETTERS.map((letter) => spellWithLetter(pitch.midi, letter))
+    .filter((spelling): spelling is Pitch => spelling !== null)
+    .sort((a, b) => Math.abs(a.accidental) - Math.abs(b.accidental) || comparePitches(a, b))
+}
+
+// Move by semitones; the result keeps the direction of the original accidental unless told otherwise
+export function transposePitch(pitch: Pitch, semitones: number, preference?: AccidentalPreference): Pitch {
+  return pitchFromMidi(pitch.midi + semitones, preference ?? (pitch.accidental < 0 ? "flat" : "sharp"))
+}
@@ -0,0 +1,90 @@
+import { fitFretRange, type FretRange } from "./fretboard"
+import type { Instrument } from "./instruments"
+import { createPitch, formatSpelling, pitchClass, type PitchSpelling } from "./pitch"
+import type { Tuning } from "./tuning"
+
+// Positions are named after the fret the index finger covers, one finger per fret
+export const POSITION_SPAN = 4
+
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI", "XII"]
+
+export type CagedShape = "C" | "A" | "G" | "E" | "D"
+
+// In the order the shapes follow each other up the neck
+export const CAGED_SHAPES: CagedShape[] = ["C", "A", "G", "E", "D"]
+
+// Frets each shape covers, relative to the root on the lowest string (C major: C shape in
+// open position, A shape at frets 2-5, G at 5-8, E at 7-10 and D at 10-13)
+const CAGED_OFFSETS: Record<CagedShape, FretRange> = {
+  C: { min: -8, max: -5 },
+  A: { min: -6, max: -3 },
+  G: { min: -3, max: 0 },
+  E: { min: -1, max: 2 },
+  D: { min: 2, max: 5 },
+}
+
+// Where on the neck questions come from: the fret range as set, a numbered position or a CAGED shape
+export type PracticeArea =
+  { kind: "frets" } | { kind: "position"; position: number } | { kind: "caged"; shape: CagedShape; root: PitchSpelling }
+
+export const CUSTOM_FRETS: PracticeArea = { kind: "frets" }
+
+export function positionName(position: number) {
+  return ROMAN_NUMERALS[position - 1] ?? String(position)
+}
+
+// Positions that start on the neck, counted from the capo when one is on
+export function neckPositions(instrument: Instrument, capo: number) {
+  const count = Math.min(ROMAN_NUMERALS.length, instrument.fretCount - capo)
+  return Array.from({ length: count }, (_, i) => i + 1)
+}
+
+export function positionFretRange(position: number): FretRange {
+  return { min: position, max: position + POSITION_SPAN - 1 }
+}
+
+// Frets a CAGED shape covers for a root, counted from the capo and found from the root's fret on the
+// lowest string. A shape reaching one fret behind the nut (or capo) is its open form (fret 0 means the
+// open strings); each shape is placed in the lowest octave that starts there or above
+export function cagedFretRange(shape: CagedShape, root: PitchSpelling, tuning: Tuning, capo: number): FretRange {
+  const lowest = tuning.strings.reduce((low, pitch) => (pitch.midi < low.midi ? pitch : low))
+  const rootClass = pitchClass(createPitch(root.letter, root.accidental, 4))
+  const rootFret = (((rootClass - pitchClass(lowest) - capo) % 12) + 12) % 12
+  const offsets = CAGED_OFFSETS[shape]
+  const octave = rootFret + offsets.min < -1 ? 12 : rootFret + offsets.min >= 11 ? -12 : 0
+  return { min: Math.max(0, rootFret + offsets.min + octave), max: rootFret + offsets.max + octave }
+}
+
+// Capo-relative frets the questions come from, cut off at the end of the neck
+export function practiceFretRange(
+  area: PracticeArea,
+  instrument: Instrument,
+  tuning: Tuning,
+  capo: number,
+  fretRange: FretRange,
+): FretRange {
+  switch (area.kind) {
+    case "frets":
+      return fretRange
+    case "position":
+      return fitFretRange(instrument, positionFretRange(area.position), capo)
+    case "caged":
+      return fitFretRange(instrument, cagedFretRange(area.shape, area.root, tuning, capo), capo)
+  }
+}
+
+// Fall back to the fret range when a position no longer starts on the neck
+export function fitPracticeArea(area: PracticeArea, instrument: Instrument, capo: number): PracticeArea {
+  return area.kind === "position" && area.position > instrument.fretCount - capo ? CUSTOM_FRETS : area
+}
+
+export function describePracticeArea(area: PracticeArea) {
+  switch (area.kind) {
+    case "frets":
+      return "Custom frets"
+    case "position":
+      return `Position ${positionName(area.position)}`
+    case "caged":
+      return `${area.shape} shape (${formatSpelling(area.root, { unicode: true })})`
+  }
+}
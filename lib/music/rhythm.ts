@@ -0,0 +1,188 @@
+export type Duration = "whole" | "half" | "quarter" | "eighth" | "sixteenth"
+
+export interface NoteValue {
+  duration: Duration
+  dotted: boolean
+}
+
+// A note or rest of a written rhythm; notes take their pitches from the phrase in order
+export interface RhythmEvent extends NoteValue {
+  rest: boolean
+}
+
+export interface Rhythm {
+  events: RhythmEvent[]
+  timeSignature: TimeSignature
+}
+
+export interface TimeSignature {
+  id: string
+  beats: number
+  beatUnit: number
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { id: "2/4", beats: 2, beatUnit: 4 },
+  { id: "3/4", beats: 3, beatUnit: 4 },
+  { id: "4/4", beats: 4, beatUnit: 4 },
+  { id: "6/8", beats: 6, beatUnit: 8 },
+]
+
+export function findTimeSignature(id: string) {
+  return TIME_SIGNATURES.find((timeSignature) => timeSignature.id === id)
+}
+
+// Longest first
+export const DURATIONS: Duration[] = ["whole", "half", "quarter", "eighth", "sixteenth"]
+
+const DURATION_QUARTERS: Record<Duration, number> = { whole: 4, half: 2, quarter: 1, eighth: 0.5, sixteenth: 0.25 }
+
+// How often each value is picked when a rhythm is generated, so quarters and eighths dominate
+const DURATION_WEIGHTS: Record<Duration, number> = { whole: 1, half: 2, quarter: 4, eighth: 4, sixteenth: 2 }
+const DOTTED_WEIGHT = 1
+
+// Length in quarter notes
+export function valueQuarters({ duration, dotted }: NoteValue) {
+  return DURATION_QUARTERS[duration] * (dotted ? 1.5 : 1)
+}
+
+export function measureQuarters(timeSignature: TimeSignature) {
+  return (timeSignature.beats * 4) / timeSignature.beatUnit
+}
+
+// Length of a beat in quarter notes: compound meters such as 6/8 are felt in dotted quarters
+export function beatQuarters(timeSignature: TimeSignature) {
+  const compound = timeSignature.beatUnit === 8 && timeSignature.beats % 3 === 0
+  return compound ? 1.5 : 4 / timeSignature.beatUnit
+}
+
+// Start of each event in quarter notes from the beginning of the phrase
+export function eventOnsets(events: NoteValue[]) {
+  let onset = 0
+  return events.map((event) => {
+    const start = onset
+    onset += valueQuarters(event)
+    return start
+  })
+}
+
+export interface RhythmOptions {
+  measures: number
+  // Shortest note value that may appear
+  shortest: Duration
+  // Chance from 0 to 1 that an event is a rest
+  restChance: number
+}
+
+export const MEASURE_COUNTS = [1, 2, 4]
+
+export const SHORTEST_DURATIONS: { value: Duration; label: string }[] = [
+  { value: "quarter", label: "Quarter notes" },
+  { value: "eighth", label: "Eighth notes" },
+  { value: "sixteenth", label: "Sixteenth notes" },
+]
+
+// Metronome speeds in beats per minute; a beat is a quarter note, or a dotted quarter in 6/8
+export const TEMPOS = [60, 80, 100, 120]
+
+// A rhythm that fills each measure exactly and keeps beats readable: values of a beat or longer start
+// on a beat, and shorter values stay within their beat so they can be beamed. A value only goes where the
+// rest of its beat can still be filled with the values allowed. Always has two notes or more
+export function generateRhythm(timeSignature: TimeSignature, options: RhythmOptions): RhythmEvent[] {
+  const measure = measureQuarters(timeSignature)
+  const beat = beatQuarters(timeSignature)
+  const shortest = DURATION_QUARTERS[options.shortest]
+  // Multiples of the shortest value, and the beat itself even when it is dotted
+  const values: NoteValue[] = DURATIONS.flatMap((duration) => [
+    { duration, dotted: false },
+    { duration, dotted: true },
+  ]).filter((value) => {
+    const quarters = valueQuarters(value)
+    return (quarters >= shortest && quarters % shortest === 0) || quarters === beat
+  })
+
+  const fits = (value: NoteValue, position: number) => {
+    const quarters = valueQuarters(value)
+    const end = position + quarters
+    if (end > measure) return false
+    if (quarters >= beat ? position % beat !== 0 : end > (Math.floor(position / beat) + 1) * beat) return false
+    return ((beat - (end % beat)) % beat) % shortest === 0
+  }
+
+  for (;;) {
+    const events: RhythmEvent[] = []
+    for (let bar = 0; bar < options.measures; bar++) {
+      let position = 0
+      while (position < measure) {
+        const choices = values.filter((value) => fits(value, position))
+        const weights = choices.map((value) => (value.dotted ? DOTTED_WEIGHT : DURATION_WEIGHTS[value.duration]))
+        let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0)
+        const value = choices.find((_, index) => (pick -= weights[index]) < 0) ?? choices[choices.length - 1]
+        events.push({ ...value, rest: Math.random() < options.restChance })
+        position += valueQuarters(value)
+      }
+    }
+    if (events.filter((event) => !event.rest).length >= 2) return events
+  }
+}
+
+// Index of the measure each event falls in
+export function eventMeasures(events: NoteValue[], timeSignature: TimeSignature) {
+  const measure = measureQuarters(timeSignature)
+  return eventOnsets(events).map((onset) => Math.floor(onset / measure))
+}
+
+// Runs of notes shorter than a quarter that share a beat, which are beamed together; each run lists event
+// indexes and has two notes or more
+export function beamGroups(events: RhythmEvent[], timeSignature: TimeSignature) {
+  const beat = beatQuarters(timeSignature)
+  const onsets = eventOnsets(events)
+  const groups: number[][] = []
+  let run: number[] = []
+  let runBeat = -1
+  events.forEach((event, index) => {
+    const beamable = !event.rest && valueQuarters(event) < 1
+    const eventBeat = Math.floor(onsets[index] / beat)
+    if (!beamable || eventBeat !== runBeat) {
+      if (run.length > 1) groups.push(run)
+      run = []
+    }
+    if (beamable) {
+      run.push(index)
+      runBeat = eventBeat
+    }
+  })
+  if (run.length > 1) groups.push(run)
+  return groups
+}
+
+export function measureBeats(timeSignature: TimeSignature) {
+  return measureQuarters(timeSignature) / beatQuarters(timeSignature)
+}
+
+// When each note (not rest) starts, in beats from the start of the rhythm
+export function noteBeats({ events, timeSignature }: Rhythm) {
+  const onsets = eventOnsets(events)
+  return events.flatMap((event, index) => (event.rest ? [] : [onsets[index] / beatQuarters(timeSignature)]))
+}
+
+export function rhythmBeats({ events, timeSignature }: Rhythm) {
+  return events.reduce((total, event) => total + valueQuarters(event), 0) / beatQuarters(timeSignature)
+}
+
+export type Timing = "early" | "on-time" | "late"
+
+// Milliseconds either side of a note's start that still count as on time
+export const ON_TIME_WINDOW = 100
+
+// How a note played `offset` milliseconds after it was due lines up with the beat
+export function judgeTiming(offset: number): Timing {
+  if (Math.abs(offset) <= ON_TIME_WINDOW) return "on-time"
+  return offset < 0 ? "early" : "late"
+}
+
+// "On time", or "Late by 180 ms"
+export function formatTiming(timing: Timing, offset: number) {
+  if (timing === "on-time") return "On time"
+  return `${timing === "early" ? "Early" : "Late"} by ${Math.round(Math.abs(offset))} ms`
+}
@@ -0,0 +1,86 @@
+import {
+  LETTERS,
+  createPitch,
+  formatSpelling,
+  pitchClass,
+  pitchFromMidi,
+  spellWithLetter,
+  type Pitch,
+  type PitchSpelling,
+} from "./pitch"
+
+export interface ScaleType {
+  id: string
+  name: string
+  // Semitones above the root, ascending
+  semitones: number[]
+  // Letter steps above the root for each note, so the scale is spelled the way it is written
+  degrees: number[]
+}
+
+const HEPTATONIC_DEGREES = [0, 1, 2, 3, 4, 5, 6]
+
+export const SCALE_TYPES: ScaleType[] = [
+  { id: "major", name: "Major", semitones: [0, 2, 4, 5, 7, 9, 11], degrees: HEPTATONIC_DEGREES },
+  { id: "natural-minor", name: "Natural minor", semitones: [0, 2, 3, 5, 7, 8, 10], degrees: HEPTATONIC_DEGREES },
+  { id: "harmonic-minor", name: "Harmonic minor", semitones: [0, 2, 3, 5, 7, 8, 11], degrees: HEPTATONIC_DEGREES },
+  { id: "melodic-minor", name: "Melodic minor", semitones: [0, 2, 3, 5, 7, 9, 11], degrees: HEPTATONIC_DEGREES },
+  { id: "dorian", name: "Dorian", semitones: [0, 2, 3, 5, 7, 9, 10], degrees: HEPTATONIC_DEGREES },
+  { id: "phrygian", name: "Phrygian", semitones: [0, 1, 3, 5, 7, 8, 10], degrees: HEPTATONIC_DEGREES },
+  { id: "lydian", name: "Lydian", semitones: [0, 2, 4, 6, 7, 9, 11], degrees: HEPTATONIC_DEGREES },
+  { id: "mixolydian", name: "Mixolydian", semitones: [0, 2, 4, 5, 7, 9, 10], degrees: HEPTATONIC_DEGREES },
+  { id: "locrian", name: "Locrian", semitones: [0, 1, 3, 5, 6, 8, 10], degrees: HEPTATONIC_DEGREES },
+  { id: "major-pentatonic", name: "Major pentatonic", semitones: [0, 2, 4, 7, 9], degrees: [0, 1, 2, 4, 5] },
+  { id: "minor-pentatonic", name: "Minor pentatonic", semitones: [0, 3, 5, 7, 10], degrees: [0, 2, 3, 4, 6] },
+  // The blue note is written as a flattened fifth
+  { id: "blues", name: "Blues", semitones: [0, 3, 5, 6, 7, 10], degrees: [0, 2, 3, 4, 4, 6] },
+]
+
+export function findScaleType(id: string) {
+  return SCALE_TYPES.find((type) => type.id === id)
+}
+
+export interface Scale {
+  type: ScaleType
+  root: PitchSpelling
+}
+
+// Roots offered for scales: the naturals plus both names of each black key
+export const SCALE_ROOTS: PitchSpelling[] = Array.from({ length: 12 }, (_, midi) => [
+  pitchFromMidi(midi, "sharp"),
+  pitchFromMidi(midi, "flat"),
+])
+  .flatMap(([sharp, flat]) => (sharp.accidental === 0 ? [sharp] : [sharp, flat]))
+  .map(({ letter, accidental }) => ({ letter, accidental }))
+
+function rootPitch(scale: Scale) {
+  return createPitch(scale.root.letter, scale.root.accidental, 4)
+}
+
+// The scale's notes from the root up, each on its own letter (a single note falls back to a
+// sharp or flat when its letter would need more than a double accidental)
+export function scaleNotes(scale: Scale): Pitch[] {
+  const root = rootPitch(scale)
+  const rootLetter = LETTERS.indexOf(root.letter)
+  return scale.type.semitones.map((semitones, index) => {
+    const midi = root.midi + semitones
+    return spellWithLetter(midi, LETTERS[(rootLetter + scale.type.degrees[index]) % 7]) ?? pitchFromMidi(midi)
+  })
+}
+
+export function scaleContains(scale: Scale, midi: number) {
+  const rootClass = pitchClass(rootPitch(scale))
+  const noteClass = pitchClass(pitchFromMidi(midi))
+  return scale.type.semitones.some((semitones) => (rootClass + semitones) % 12 === noteClass)
+}
+
+// Spell a MIDI number in the scale, keeping its octave; null when it isn't in the scale
+export function spellInScale(midi: number, scale: Scale): Pitch | null {
+  const noteClass = pitchClass(pitchFromMidi(midi))
+  const note = scaleNotes(scale).find((pitch) => pitchClass(pitch) === noteClass)
+  return note ? spellWithLetter(midi, note.letter) : null
+}
+
+export function describeScale(scale: Scale) {
+  return `${formatSpelling(scale.root, { unicode: true })} ${scale.type.name.toLowerCase()}`
+}
@@ -0,0 +1,25 @@
+import { spellInKey, type Key } from "./keys"
+import { pitchFromMidi, type Pitch } from "./pitch"
+
+// How chromatic notes are written when a question is generated
+export type SpellingMode = "sharps" | "flats" | "random" | "key"
+
+export const SPELLING_MODES: { value: SpellingMode; label: string }[] = [
+  { value: "sharps", label: "Sharps (♯)" },
+  { value: "flats", label: "Flats (♭)" },
+  { value: "random", label: "Random sharps or flats" },
+  { value: "key", label: "Follow the key" },
+]
+
+export function spellPitch(midi: number, mode: SpellingMode, key: Key): Pitch {
+  switch (mode) {
+    case "sharps":
+      return pitchFromMidi(midi, "sharp")
+    case "flats":
+      return pitchFromMidi(midi, "flat")
+    case "random":
+      return pitchFromMidi(midi, Math.random() < 0.5 ? "sharp" : "flat")
+    case "key":
+      return spellInKey(midi, key)
+  }
+}
@@ -0,0 +1,127 @@
+import { keySignatureAccidentals, type Key } from "./keys"
+import { LETTERS, createPitch, diatonicIndex, type Accidental, type Pitch } from "./pitch"
+
+export interface Clef {
+  id: string
+  name: string
+  // G clef curls around the G line (treble), F clef's dots straddle the F line (bass)
+  sign: "G" | "F"
+  // Written pitch that sits on the bottom line of the staff
+  bottomLine: Pitch
+  // Octaves the music is written above the sounding pitch
+  octaveTransposition: number
+}
+
+// Guitar music is written in treble clef an octave above where it sounds, marked by an 8 under the clef
+export const TREBLE_8VB_CLEF: Clef = {
+  id: "treble-8vb",
+  name: "Guitar treble (sounds an octave lower)",
+  sign: "G",
+  bottomLine: createPitch("E", 0, 4),
+  octaveTransposition: 1,
+}
+
+export const TREBLE_CLEF: Clef = {
+  id: "treble",
+  name: "Concert-pitch treble",
+  sign: "G",
+  bottomLine: createPitch("E", 0, 4),
+  octaveTransposition: 0,
+}
+
+// Bass guitar is written in bass clef an octave above where it sounds
+export const BASS_8VB_CLEF: Clef = {
+  id: "bass-8vb",
+  name: "Bass (sounds an octave lower)",
+  sign: "F",
+  bottomLine: createPitch("G", 0, 2),
+  octaveTransposition: 1,
+}
+
+export const BASS_CLEF: Clef = {
+  id: "bass",
+  name: "Concert-pitch bass",
+  sign: "F",
+  bottomLine: createPitch("G", 0, 2),
+  octaveTransposition: 0,
+}
+
+export const CLEFS = [TREBLE_8VB_CLEF, TREBLE_CLEF, BASS_8VB_CLEF, BASS_CLEF]
+
+export function findClef(id: string) {
+  return CLEFS.find((clef) => clef.id === id)
+}
+
+// Staff positions count letter steps up from the bottom line: even positions are lines,
+// odd positions are spaces, and 0 to STAFF_TOP_POSITION lie on the five-line staff
+export const STAFF_TOP_POSITION = 8
+
+export function staffPosition(pitch: Pitch, clef: Clef) {
+  return diatonicIndex(pitch) + clef.octaveTransposition * 7 - diatonicIndex(clef.bottomLine)
+}
+
+// Sounding pitch of a note written on a staff position; with no accidental given it takes the key signature's
+export function pitchAtPosition(position: number, clef: Clef, key: Key, accidental: Accidental | null): Pitch {
+  const index = position + diatonicIndex(clef.bottomLine) - clef.octaveTransposition * 7
+  const letter = LETTERS[((index % 7) + 7) % 7]
+  return createPitch(letter, accidental ?? keySignatureAccidentals(key.fifths)[letter], Math.floor(index / 7))
+}
+
+// The pitch as written on the staff, an octave up in the 8vb clefs
+export function writtenPitch(pitch: Pitch, clef: Clef): Pitch {
+  return createPitch(pitch.letter, pitch.accidental, pitch.octave + clef.octaveTransposition)
+}
+
+// How far beyond the staff reading questions go, in ledger lines
+export const READING_RANGES: { value: number; label: string }[] = [
+  { value: 0, label: "On the staff" },
+  { value: 2, label: "Up to two ledger lines" },
+  { value: 4, label: "Up to four ledger lines" },
+]
+
+// Staff positions with up to `ledgerLines` ledger lines either side, including the space past the last one
+export function readingPositions(ledgerLines: number) {
+  return { lowest: -2 * ledgerLines - 1, highest: STAFF_TOP_POSITION + 2 * ledgerLines + 1 }
+}
+
+// Ledger lines needed to reach a position, nearest the staff first
+export function ledgerLinePositions(position: number) {
+  const lines: number[] = []
+  for (let line = -2; line >= position; line -= 2) lines.push(line)
+  for (let line = STAFF_TOP_POSITION + 2; line <= position; line += 2) lines.push(line)
+  return lines
+}
+
+// Where each key signature accidental goes on a treble staff, in the order they are written;
+// bass clef signatures follow the same shape a third lower
+const TREBLE_SHARP_POSITIONS = [8, 5, 9, 6, 3, 7, 4]
+const TREBLE_FLAT_POSITIONS = [4, 7, 3, 6, 2, 5, 1]
+
+export function keySignaturePositions(key: Key, clef: Clef): { accidental: Accidental; position: number }[] {
+  const positions = key.fifths >= 0 ? TREBLE_SHARP_POSITIONS : TREBLE_FLAT_POSITIONS
+  const shift = clef.sign === "F" ? -2 : 0
+  return positions.slice(0, Math.abs(key.fifths)).map((position) => ({
+    accidental: key.fifths > 0 ? 1 : -1,
+    position: position + shift,
+  }))
+}
+
+// Accidental written before a note in a key: null when the key signature already implies it,
+// a natural (0) when the note cancels the signature
+export function writtenAccidental(pitch: Pitch, key: Key): Accidental | null {
+  return keySignatureAccidentals(key.fifths)[pitch.letter] === pitch.accidental ? null : pitch.accidental
+}
+
+// Accidentals written in a passage split into measures: an accidental holds for the rest of its measure on
+// the same line or space, so a repeat of it is left unwritten and a return to the key's note needs one
+export function measureAccidentals(pitches: Pitch[], key: Key, measures: number[]): (Accidental | null)[] {
+  const signature = keySignatureAccidentals(key.fifths)
+  let altered = new Map<number, Accidental>()
+  return pitches.map((pitch, index) => {
+    if (index > 0 && measures[index] !== measures[index - 1]) altered = new Map()
+    const step = diatonicIndex(pitch)
+    if ((altered.get(step) ?? signature[pitch.letter]) === pitch.accidental) return null
+    altered.set(step, pitch.accidental)
+    return pitch.accidental
+  })
+}
@@ -0,0 +1,48 @@
+import { createPitch, formatPitch, parsePitch, type Pitch } from "./pitch"
+
+export interface Tuning {
+  id: string
+  name: string
+  // Open-string pitches from the 1st string on
+  strings: Pitch[]
+}
+
+// Build a tuning from space-separated pitches written from the highest-numbered string to the 1st,
+// the way tunings are usually named ("DADGAD", or "gDGBD" for a banjo)
+export function createTuning(id: string, name: string, notes: string): Tuning {
+  const strings = notes
+    .trim()
+    .split(/\s+/)
+    .map((note) => {
+      const pitch = parsePitch(note)
+      if (!pitch) throw new Error(`Invalid pitch "${note}" in tuning ${name}`)
+      return pitch
+    })
+  return { id, name, strings: strings.reverse() }
+}
+
+// Open-string names from the highest-numbered string without octaves, e.g. "DADGAD"
+export function describeTuning(tuning: Tuning) {
+  return [...tuning.strings]
+    .reverse()
+    .map((pitch) => formatPitch(pitch, { octave: false, unicode: true }))
+    .join(" ")
+}
+
+// Lowest and highest open-string pitches accepted in a custom tuning
+export const LOWEST_OPEN_STRING = createPitch("A", 0, 0)
+export const HIGHEST_OPEN_STRING = createPitch("C", 0, 5)
+
+export const STANDARD_TUNING = createTuning("standard", "Standard", "E2 A2 D3 G3 B3 E4")
+
+export const GUITAR_TUNINGS: Tuning[] = [
+  STANDARD_TUNING,
+  createTuning("drop-d", "Drop D", "D2 A2 D3 G3 B3 E4"),
+  createTuning("drop-c", "Drop C", "C2 G2 C3 F3 A3 D4"),
+  createTuning("dadgad", "DADGAD", "D2 A2 D3 G3 A3 D4"),
+  createTuning("open-g", "Open G", "D2 G2 D3 G3 B3 D4"),
+  createTuning("open-d", "Open D", "D2 A2 D3 F#3 A3 D4"),
+  createTuning("open-e", "Open E", "E2 B2 E3 G#3 B3 E4"),
+  createTuning("half-step-down", "Half step down (E♭ standard)", "Eb2 Ab2 Db3 Gb3 Bb3 Eb4"),
+  createTuning("whole-step-down", "Whole step down (D standard)", "D2 G2 C3 F3 A3 D4"),
+]